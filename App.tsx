@@ -1,35 +1,124 @@
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ParticleSystem from './components/ParticleSystem';
 import HandTracker from './components/HandTracker';
 import Controls from './components/Controls';
 import PerformanceMonitor from './components/PerformanceMonitor';
-import { ParticleConfig, ShapeType, ParticleStyle, HandTrackingResult } from './types';
+import SessionPanel from './components/SessionPanel';
+import GestureTrainer from './components/GestureTrainer';
+import BenchmarkPanel from './components/BenchmarkPanel';
+import { ParticleConfig, ShapeType, DEFAULT_TEXT_SHAPE, DEFAULT_POST_PROCESSING, DEFAULT_PALETTE, ParticleStyle, HandTrackingResult, AppAction, GestureType, TrailFade, TrailRender, MorphEasing } from './types';
+import { inputSourceFromQuery, LandmarkFrame } from './utils/inputSources';
+import { createSessionRecorder } from './utils/sessionRecorder';
+import { GestureModel, createSampleCollector, loadGestureModel, labelToGesture } from './utils/gestureClassifier';
+import {
+  ParticleActionSignal, isParticleAction, applyConfigAction,
+} from './utils/appActions';
+import { DEFAULT_GESTURE_BINDINGS, actionFor } from './utils/gestureBindings';
+import { randomSeed } from './utils/random';
+import { QUALITY_TIERS, QualityTier } from './utils/qualityGovernor';
+import { createProfiler } from './utils/profiler';
+import { BENCHMARK_PROFILER_OPTIONS, BenchmarkPhase, benchmarkFromQuery, phaseConfig, phaseQuality } from './utils/benchmark';
 import { Sparkles } from 'lucide-react';
 
 const App: React.FC = () => {
+  // ?benchmark runs a scripted scenario instead of live input (see utils/benchmark.ts)
+  const [benchmark] = useState(() => benchmarkFromQuery());
+
   const [config, setConfig] = useState<ParticleConfig>({
     color: '#ff00ff',
+    palette: DEFAULT_PALETTE,
     shape: ShapeType.SPHERE,
+    text: DEFAULT_TEXT_SHAPE,
+    seed: benchmark?.seed ?? randomSeed(),
     style: ParticleStyle.GLOW,
+    gestureBindings: DEFAULT_GESTURE_BINDINGS,
+    trailLength: 5,
+    trailFade: TrailFade.LINEAR,
+    trailRender: TrailRender.POINTS,
+    morphEasing: MorphEasing.SMOOTH,
+    morphDuration: 1.2,
+    morphStagger: 0.4,
+    postProcessing: DEFAULT_POST_PROCESSING,
   });
 
   const [handData, setHandData] = useState<HandTrackingResult>({
     tension: 0,
-    isDetected: false
+    isDetected: false,
+    gesture: 'none',
+    hands: [],
   });
 
   const fpsRef = useRef(60);
+  const [qualityTier, setQualityTier] = useState<QualityTier>(QUALITY_TIERS[0]);
+  const [qualityOverride, setQualityOverride] = useState<QualityTier | null>(null);
+  const profilerRef = useRef(createProfiler(benchmark ? BENCHMARK_PROFILER_OPTIONS : undefined));
+  const [particleAction, setParticleAction] = useState<ParticleActionSignal | null>(null);
+
+  // ?input=video|recording&src=... replaces the webcam (demos, headless CI)
+  const [inputSource] = useState(() => inputSourceFromQuery() ?? undefined);
+
+  // Session recording / replay - live tracking is ignored while replaying
+  const recorderRef = useRef(createSessionRecorder());
+  const replayingRef = useRef(false);
+
+  // Custom gesture training - samples come from the same frame stream
+  const sampleCollectorRef = useRef(createSampleCollector());
+  const [gestureModel, setGestureModel] = useState<GestureModel | null>(() => loadGestureModel());
+  const customGestures = useMemo(() => {
+    const gestures = gestureModel?.samples.map(s => labelToGesture(s.label)) ?? [];
+    return Array.from(new Set<GestureType>(gestures)).filter(g => g.startsWith('custom:'));
+  }, [gestureModel]);
+  const lastGestureRef = useRef<GestureType>('none');
 
   // Optimize updates to avoid excessive re-renders in heavy components
   const handleHandUpdate = useCallback((result: HandTrackingResult) => {
-    setHandData(result);
+    if (!replayingRef.current) setHandData(result);
+  }, []);
+
+  const handleFrame = useCallback((frame: LandmarkFrame, result: HandTrackingResult) => {
+    recorderRef.current.record(frame, result);
+    sampleCollectorRef.current.collect(frame);
   }, []);
 
+  const handleReplayingChange = useCallback((replaying: boolean) => {
+    replayingRef.current = replaying;
+  }, []);
+
+  const dispatchAction = useCallback((action: AppAction, strength: number = 1) => {
+    if (isParticleAction(action)) {
+      setParticleAction(prev => ({ action, strength, id: (prev?.id ?? 0) + 1 }));
+    } else if (action !== 'none') {
+      setConfig(prev => applyConfigAction(prev, action));
+    }
+  }, []);
+
+  // Motion gestures (swipe / circle / push / pull) -> bound actions, live or replayed
+  useEffect(() => {
+    if (handData.motion) {
+      dispatchAction(actionFor(config.gestureBindings, handData.motion.type), handData.motion.strength);
+    }
+    // Bindings are read, not watched: editing them must not re-fire the last event
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [handData.motion, dispatchAction]);
+
+  // Gestures bound to an action fire it once, when the gesture starts
+  useEffect(() => {
+    if (handData.gesture === lastGestureRef.current) return;
+    lastGestureRef.current = handData.gesture;
+    dispatchAction(actionFor(config.gestureBindings, handData.gesture));
+  }, [handData.gesture, config.gestureBindings, dispatchAction]);
+
   const handleFpsUpdate = useCallback((fps: number) => {
     fpsRef.current = fps;
   }, []);
 
+  const handleBenchmarkPhase = useCallback((phase: BenchmarkPhase) => {
+    if (!benchmark) return;
+    setConfig(prev => ({ ...prev, ...phaseConfig(benchmark, phase) }));
+    setQualityOverride(phaseQuality(phase));
+  }, [benchmark]);
+
   // Compute visual tension for UI (matches shader logic: Open=1.0, Fist=0.0)
   const uiTension = 1.0 - handData.tension;
 
@@ -37,7 +126,15 @@ const App: React.FC = () => {
     <div className="relative w-full h-screen text-white overflow-hidden selection:bg-purple-500/30">
       
       {/* ParticleSystem - centered background */}
-      <ParticleSystem config={config} handData={handData} onFpsUpdate={handleFpsUpdate} />
+      <ParticleSystem
+        config={config}
+        handData={handData}
+        onFpsUpdate={handleFpsUpdate}
+        onQualityChange={setQualityTier}
+        particleAction={particleAction}
+        profiler={profilerRef.current}
+        qualityOverride={qualityOverride}
+      />
       
       {/* Title - Top Left */}
       <div className="fixed top-6 left-6 z-40 select-none pointer-events-none">
@@ -55,23 +152,60 @@ const App: React.FC = () => {
 
       {/* Performance Monitor - Top Right */}
       <div className="fixed top-6 right-6 z-40">
-        <PerformanceMonitor fpsRef={fpsRef} />
+        <PerformanceMonitor fpsRef={fpsRef} qualityTier={qualityOverride ?? qualityTier} profiler={profilerRef.current} />
       </div>
 
-      {/* Hand Tracker - Always running */}
-      <HandTracker onUpdate={handleHandUpdate} />
-      
-      {/* Controls Toolbox - Bottom Right, Compact */}
-      <div className="fixed bottom-6 right-6 z-30">
-        <Controls 
-          config={config} 
-          setConfig={setConfig} 
-          visualTension={uiTension} 
-        />
-      </div>
-      
+      {benchmark ? (
+        /* Benchmark - scripted input, no camera or MediaPipe */
+        <div className="fixed bottom-6 right-6 z-30">
+          <BenchmarkPanel
+            scenario={benchmark}
+            profiler={profilerRef.current}
+            onPhase={handleBenchmarkPhase}
+            onHandUpdate={setHandData}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Hand Tracker - Always running */}
+          <HandTracker
+            onUpdate={handleHandUpdate}
+            onFrame={handleFrame}
+            inferenceRate={qualityTier.inferenceRate}
+            source={inputSource}
+            gestureModel={gestureModel}
+            profiler={profilerRef.current}
+          />
+
+          {/* Gesture Trainer + Session Recorder / Replayer - Bottom Left */}
+          <div className="fixed bottom-6 left-6 z-30 flex flex-col gap-2">
+            <GestureTrainer
+              collector={sampleCollectorRef.current}
+              model={gestureModel}
+              onModelChange={setGestureModel}
+            />
+            <SessionPanel
+              recorder={recorderRef.current}
+              onReplayUpdate={setHandData}
+              onReplayingChange={handleReplayingChange}
+            />
+          </div>
+
+          {/* Controls Toolbox - Bottom Right, Compact */}
+          <div className="fixed bottom-6 right-6 z-30">
+            <Controls 
+              config={config} 
+              setConfig={setConfig} 
+              visualTension={uiTension} 
+              customGestures={customGestures}
+              allowedEffects={qualityTier.postEffects}
+            />
+          </div>
+        </>
+      )}
+
       {/* Waiting for hand indicator - Center */}
-      {!handData.isDetected && (
+      {!handData.isDetected && !benchmark && (
         <div className="fixed inset-0 flex items-center justify-center pointer-events-none z-0">
           <div className="text-white/20 text-lg font-light tracking-[0.2em] animate-pulse">
             WAITING FOR HAND
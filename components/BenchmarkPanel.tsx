@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandTrackingResult } from '../types';
+import {
+  BenchmarkPhase, BenchmarkReport, BenchmarkRunner, BenchmarkScenario,
+  benchmarkDuration, createBenchmarkRunner,
+} from '../utils/benchmark';
+import { Profiler } from '../utils/profiler';
+import { downloadJson, fileTimestamp } from '../utils/download';
+import { Download, RotateCcw, Timer } from 'lucide-react';
+
+interface BenchmarkPanelProps {
+  scenario: BenchmarkScenario;
+  profiler: Profiler;
+  onPhase: (phase: BenchmarkPhase) => void;
+  onHandUpdate: (result: HandTrackingResult) => void;
+}
+
+const downloadReport = (report: BenchmarkReport) => {
+  downloadJson(report, `benchmark-${fileTimestamp()}.json`);
+};
+
+const BenchmarkPanel: React.FC<BenchmarkPanelProps> = ({ scenario, profiler, onPhase, onHandUpdate }) => {
+  const [elapsed, setElapsed] = useState(0);
+  const [phase, setPhase] = useState<BenchmarkPhase | null>(null);
+  const [report, setReport] = useState<BenchmarkReport | null>(null);
+  const runnerRef = useRef<BenchmarkRunner | null>(null);
+  const duration = benchmarkDuration(scenario);
+
+  useEffect(() => {
+    const runner = createBenchmarkRunner(scenario, profiler, {
+      onPhase,
+      onHandUpdate,
+      onEnd: result => {
+        window.benchmarkReport = result;
+        setReport(result);
+        if (scenario.download) downloadReport(result);
+      },
+    });
+    runnerRef.current = runner;
+    runner.start();
+    return () => {
+      runner.stop();
+      runnerRef.current = null;
+    };
+  }, [scenario, profiler, onPhase, onHandUpdate]);
+
+  // Progress readout; the runner itself ticks every frame
+  useEffect(() => {
+    if (report) return;
+    const interval = setInterval(() => {
+      setElapsed(runnerRef.current?.elapsed ?? 0);
+      setPhase(runnerRef.current?.phase ?? null);
+    }, 250);
+    return () => clearInterval(interval);
+  }, [report]);
+
+  const restart = () => {
+    setReport(null);
+    window.benchmarkReport = undefined;
+    runnerRef.current?.start();
+  };
+
+  return (
+    <div className="w-64 bg-black/75 backdrop-blur-xl border border-white/20 rounded-xl p-3 shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-bold text-cyan-400 uppercase tracking-wider flex items-center gap-1">
+          <Timer className="w-3 h-3" /> Benchmark
+        </h2>
+        <span className="text-[8px] font-mono text-gray-500">
+          {report ? 'done' : `${elapsed.toFixed(0)} / ${duration}s`}
+        </span>
+      </div>
+
+      {!report && (
+        <>
+          <div className="h-1 bg-white/10 rounded overflow-hidden mb-1">
+            <div className="h-full bg-cyan-400" style={{ width: `${Math.min(elapsed / duration, 1) * 100}%` }} />
+          </div>
+          {phase && (
+            <p className="text-[9px] font-mono text-gray-300">
+              {phase.count}p · {phase.step.config.shape ?? '-'} · {phase.step.config.style ?? '-'} · {phase.step.gesture}
+            </p>
+          )}
+        </>
+      )}
+
+      {report && (
+        <div className="space-y-1">
+          {report.summary.map(({ particles, fps, p95FrameTime }) => (
+            <div key={particles} className="flex items-center justify-between text-[9px] font-mono">
+              <span className="text-gray-500">{particles}p</span>
+              <span className="text-gray-200">{fps.toFixed(1)} FPS · p95 {p95FrameTime.toFixed(1)} ms</span>
+            </div>
+          ))}
+          <div className="grid grid-cols-2 gap-1 pt-1">
+            <button
+              onClick={() => downloadReport(report)}
+              className="flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-cyan-500/30 border border-cyan-400/50 text-cyan-200"
+            >
+              <Download className="w-2.5 h-2.5" /> Report
+            </button>
+            <button
+              onClick={restart}
+              className="flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300"
+            >
+              <RotateCcw className="w-2.5 h-2.5" /> Again
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
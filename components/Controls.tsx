@@ -1,34 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import { ParticleConfig, ShapeType, ParticleStyle } from '../types';
-import { Heart, Globe, Atom, Flower, Activity, Zap, Circle, Square, Disc, Star, Sparkles, RotateCw, Settings, Copy, Share2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { ParticleConfig, ShapeType, TextShapeOptions, PARTICLE_COUNT, ParticleStyle, PRESET_COLORS, BUILTIN_GESTURES, PARTICLE_BEHAVIORS, MOTION_GESTURES, MotionGesture, GestureType, GestureBinding, TrailFade, TrailRender, TRAIL_LENGTH, MorphEasing, POST_EFFECTS, PostEffect, PostProcessingConfig, DEFAULT_POST_PROCESSING, COLOR_DRIVERS, ColorDriver, GradientStop, PaletteConfig } from '../types';
+import { BINDABLE_ACTIONS, BINDING_LABELS, DEFAULT_GESTURE_BINDINGS, actionFor } from '../utils/gestureBindings';
+import { Preset, loadPresets, savePreset, deletePreset, applyPreset } from '../utils/presets';
+import { ImportedShape, deleteImportedShape, listImportedShapes, loadImportedShapes, saveImportedShape } from '../utils/shapeStore';
+import { listShapes, subscribeShapes } from '../utils/shapeRegistry';
+import { MESH_FILE_ACCEPT, importMeshShape } from '../utils/meshImport';
+import { IMAGE_FILE_ACCEPT, importImageShape } from '../utils/imageImport';
+import { FONT_FILE_ACCEPT, listFonts, loadFontFile } from '../utils/textShape';
+import { randomSeed } from '../utils/random';
+import { BUILTIN_PALETTES, MAX_GRADIENT_STOPS, paletteCss, splitWidestGap } from '../utils/palette';
+import { Circle, Square, Disc, Star, Sparkles, RotateCw, Settings, Copy, Share2, ChevronDown, ChevronUp, Trash2, Save, Upload, Layers, Dices, Plus, Pipette } from 'lucide-react';
 
 interface ControlsProps {
   config: ParticleConfig;
   setConfig: React.Dispatch<React.SetStateAction<ParticleConfig>>;
   visualTension: number; // 0-1 for UI bar
+  customGestures?: GestureType[]; // Trained gestures, bindable like built-in ones
+  allowedEffects?: readonly PostEffect[]; // Effects the current quality tier lets run
 }
 
-const COLORS = [
-  '#00ffff', // Cyan
-  '#ff00ff', // Magenta
-  '#ffff00', // Yellow
-  '#ff3333', // Red
-  '#33ff33', // Green
-  '#ffffff', // White
-  '#00ff88', // Turquoise
-  '#ff6600', // Orange
-];
-
-const RAINBOW_COLORS = ['#ff0000', '#ff7f00', '#ffff00', '#00ff00', '#0000ff', '#4b0082', '#9400d3'];
-
-const SHAPES = [
-  { type: ShapeType.SPHERE, icon: Globe, label: 'Sphere' },
-  { type: ShapeType.HEART, icon: Heart, label: 'Heart' },
-  { type: ShapeType.FLOWER, icon: Flower, label: 'Flower' },
-  { type: ShapeType.SATURN, icon: Atom, label: 'Saturn' },
-  { type: ShapeType.BUDDHA, icon: Activity, label: 'Zen' }, 
-  { type: ShapeType.FIREWORKS, icon: Zap, label: 'Burst' },
-];
+const COLOR_DRIVER_LABELS: Record<ColorDriver, { label: string; title: string }> = {
+  solid: { label: 'Solid', title: 'One colour for every particle' },
+  radius: { label: 'Radius', title: 'Gradient from the centre outward' },
+  height: { label: 'Height', title: 'Gradient from bottom to top' },
+  trail: { label: 'Trail', title: 'Gradient from each particle to the end of its trail' },
+  speed: { label: 'Speed', title: 'Gradient from resting to fast particles' },
+  time: { label: 'Time', title: 'All particles cycle through the gradient' },
+  tension: { label: 'Fist', title: 'Gradient from open hand to fist' },
+};
 
 const STYLES = [
   { type: ParticleStyle.GLOW, icon: Circle, label: 'Glow' },
@@ -37,42 +36,170 @@ const STYLES = [
   { type: ParticleStyle.MAGIC, icon: Star, label: 'Star' },
 ];
 
-const Controls: React.FC<ControlsProps> = ({ config, setConfig, visualTension }) => {
-  const [rainbowMode, setRainbowMode] = useState(false);
-  const [rainbowIndex, setRainbowIndex] = useState(0);
+// Numeric settings of each post-processing effect, one slider apiece
+type EffectParamKey<E extends PostEffect> = Exclude<keyof PostProcessingConfig[E], 'enabled'>;
+type EffectValues = { [E in PostEffect]: Record<EffectParamKey<E>, number> };
+
+// Label and sliders for each post-processing effect
+const EFFECT_CONTROLS: { [E in PostEffect]: { label: string; params: { key: EffectParamKey<E>; label: string; min: number; max: number; step: number }[] } } = {
+  bloom: {
+    label: 'Bloom',
+    params: [
+      { key: 'threshold', label: 'Thresh', min: 0, max: 1, step: 0.05 },
+      { key: 'strength', label: 'Amount', min: 0, max: 3, step: 0.1 },
+      { key: 'radius', label: 'Radius', min: 0, max: 1, step: 0.05 },
+    ],
+  },
+  afterimage: { label: 'Afterimage', params: [{ key: 'damp', label: 'Keep', min: 0.5, max: 0.98, step: 0.01 }] },
+  chromatic: { label: 'Chromatic', params: [{ key: 'amount', label: 'Shift', min: 0, max: 0.01, step: 0.0005 }] },
+  vignette: {
+    label: 'Vignette',
+    params: [
+      { key: 'offset', label: 'Size', min: 0.5, max: 2, step: 0.05 },
+      { key: 'darkness', label: 'Dark', min: 0, max: 2, step: 0.05 },
+    ],
+  },
+  grain: { label: 'Grain', params: [{ key: 'intensity', label: 'Amount', min: 0, max: 1, step: 0.05 }] },
+};
+
+const gestureLabel = (gesture: GestureType | MotionGesture) => {
+  return gesture.startsWith('custom:') ? gesture.slice('custom:'.length) : gesture.replace('_', ' ');
+};
+
+const Controls: React.FC<ControlsProps> = ({ config, setConfig, visualTension, customGestures = [], allowedEffects = POST_EFFECTS }) => {
   const [autoShapeMode, setAutoShapeMode] = useState(false);
-  const [expandedPanel, setExpandedPanel] = useState<'shapes' | 'colors' | 'styles' | null>('shapes');
+  const [expandedPanel, setExpandedPanel] = useState<'shapes' | 'colors' | 'styles' | 'effects' | 'bindings' | 'presets' | null>('shapes');
   const [copied, setCopied] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>(() => loadPresets());
+  const [presetName, setPresetName] = useState('');
+  const [importedShapes, setImportedShapes] = useState<ImportedShape[]>(() => listImportedShapes());
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const meshInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const [imageDepth, setImageDepth] = useState(false);
+  const [textDraft, setTextDraft] = useState(config.text.text);
+  const [fonts, setFonts] = useState(() => listFonts());
+  const [fontError, setFontError] = useState<string | null>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+
+  // Built-in shapes, then imported and other runtime-registered ones
+  const shapes = useSyncExternalStore(subscribeShapes, listShapes);
+  const activeImportedShape = importedShapes.find(shape => shape.id === config.shape);
+
+  const bindableGestures: GestureType[] = [...BUILTIN_GESTURES.filter(g => g !== 'none'), ...customGestures];
+
+  const setBinding = (gesture: GestureType | MotionGesture, binding: GestureBinding) => {
+    setConfig(prev => ({ ...prev, gestureBindings: { ...prev.gestureBindings, [gesture]: binding } }));
+  };
 
-  // Rainbow mode animation
+  const setEffect = (effect: PostEffect, changes: Partial<PostProcessingConfig[PostEffect]>) => {
+    setConfig(prev => ({
+      ...prev,
+      postProcessing: { ...prev.postProcessing, [effect]: { ...prev.postProcessing[effect], ...changes } },
+    }));
+  };
+
+  const solidColor = config.palette.driver === 'solid';
+  const customColor = !PRESET_COLORS.includes(config.color);
+
+  const setPalette = (changes: Partial<PaletteConfig>) => {
+    setConfig(prev => ({ ...prev, palette: { ...prev.palette, ...changes } }));
+  };
+
+  const setStop = (index: number, changes: Partial<GradientStop>) => {
+    setConfig(prev => ({
+      ...prev,
+      palette: { ...prev.palette, stops: prev.palette.stops.map((stop, i) => (i === index ? { ...stop, ...changes } : stop)) },
+    }));
+  };
+
+  const togglePanel = (panel: 'colors' | 'effects' | 'bindings' | 'presets') => {
+    setExpandedPanel(expandedPanel === panel ? null : panel);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(savePreset(name, config));
+    setPresetName('');
+  };
+
+  const handleLoadPreset = (preset: Preset) => {
+    setAutoShapeMode(false);
+    setConfig(prev => applyPreset(prev, preset));
+  };
+
+  // Imported meshes persist in IndexedDB between sessions
   useEffect(() => {
-    if (!rainbowMode) return;
+    loadImportedShapes()
+      .then(setImportedShapes)
+      .catch(err => console.warn('Could not load imported shapes:', err));
+  }, []);
 
-    const interval = setInterval(() => {
-      setRainbowIndex(prev => {
-        const nextIndex = (prev + 1) % RAINBOW_COLORS.length;
-        setConfig(prev => ({ ...prev, color: RAINBOW_COLORS[nextIndex] }));
-        return nextIndex;
-      });
-    }, 300);
+  const handleImport = async (file: File | undefined, kind: 'mesh' | 'image') => {
+    if (!file) return;
+    setImportError(null);
+    setIsImporting(true);
+    try {
+      const shape = kind === 'mesh'
+        ? await importMeshShape(file, PARTICLE_COUNT)
+        : await importImageShape(file, PARTICLE_COUNT, { depth: imageDepth ? 1.5 : 0 });
+      await saveImportedShape(shape).catch(err => console.warn('Could not save imported shape:', err));
+      setImportedShapes(listImportedShapes());
+      setAutoShapeMode(false);
+      setConfig(prev => ({ ...prev, shape: shape.id }));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : `Could not import ${kind}.`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-    return () => clearInterval(interval);
-  }, [rainbowMode, setConfig]);
+  const handleDeleteShape = async (shape: ImportedShape) => {
+    if (config.shape === shape.id) {
+      setConfig(prev => ({ ...prev, shape: ShapeType.SPHERE }));
+    }
+    await deleteImportedShape(shape.id).catch(err => console.warn('Could not delete imported shape:', err));
+    setImportedShapes(listImportedShapes());
+  };
+
+  const setText = (changes: Partial<TextShapeOptions>) => {
+    setConfig(prev => ({ ...prev, text: { ...prev.text, ...changes } }));
+  };
 
-  // Auto shape cycle mode
+  // Keep the draft in step when a preset changes the text
+  useEffect(() => {
+    setTextDraft(config.text.text);
+  }, [config.text.text]);
+
+  const handleFontSelected = async (file: File | undefined) => {
+    if (!file) return;
+    setFontError(null);
+    try {
+      const font = await loadFontFile(file);
+      setFonts(listFonts());
+      setText({ font });
+    } catch (err) {
+      setFontError(err instanceof Error ? err.message : 'Could not load font.');
+    }
+  };
+
+  // Auto shape cycle mode - each change plays the same morph, held briefly once it lands
+  const autoShapeInterval = Math.max(2000, config.morphDuration * 1000 + 800);
   useEffect(() => {
     if (!autoShapeMode) return;
 
     const interval = setInterval(() => {
       setConfig(prev => {
-        const currentIndex = SHAPES.findIndex(s => s.type === prev.shape);
-        const nextIndex = (currentIndex + 1) % SHAPES.length;
-        return { ...prev, shape: SHAPES[nextIndex].type };
+        const currentIndex = shapes.findIndex(s => s.id === prev.shape);
+        const nextIndex = (currentIndex + 1) % shapes.length;
+        return { ...prev, shape: shapes[nextIndex].id };
       });
-    }, 2000);
+    }, autoShapeInterval);
 
     return () => clearInterval(interval);
-  }, [autoShapeMode, setConfig]);
+  }, [autoShapeMode, autoShapeInterval, shapes, setConfig]);
 
   return (
     <div className="w-72">
@@ -85,18 +212,18 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, visualTension })
           <Sparkles className="w-3 h-3 text-purple-400" />
         </div>
 
-        {/* Shapes - Compact 3x2 Grid */}
+        {/* Shapes - Compact 3-column grid from the shape registry */}
         <div className="space-y-1 mb-2">
           <div className="grid grid-cols-3 gap-1">
-            {SHAPES.map((item) => {
+            {shapes.map((item) => {
               const Icon = item.icon;
-              const isActive = config.shape === item.type;
+              const isActive = config.shape === item.id;
               return (
                 <button
-                  key={item.type}
+                  key={item.id}
                   onClick={() => {
                     setAutoShapeMode(false);
-                    setConfig(prev => ({ ...prev, shape: item.type }));
+                    setConfig(prev => ({ ...prev, shape: item.id }));
                   }}
                   className={`rounded p-2 transition-all duration-200 flex items-center justify-center
                     ${isActive 
@@ -120,6 +247,135 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, visualTension })
           >
             {autoShapeMode ? 'Auto ON' : 'Auto OFF'}
           </button>
+          <div className="flex items-center gap-1.5 text-[7px] text-gray-500">
+            <span className="w-10 uppercase">Seed</span>
+            <input
+              type="number"
+              min={0}
+              value={config.seed}
+              onChange={e => setConfig(prev => ({ ...prev, seed: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-1.5 py-0.5 text-[8px] font-mono text-gray-200 outline-none focus:border-cyan-400/60"
+            />
+            <button
+              onClick={() => setConfig(prev => ({ ...prev, seed: randomSeed() }))}
+              className="text-gray-400 hover:text-cyan-300"
+              title="New random seed"
+            >
+              <Dices className="w-2.5 h-2.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-1">
+            <button
+              onClick={() => meshInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+              title="Import an OBJ, PLY or glTF mesh as a shape"
+            >
+              <Upload className="w-2.5 h-2.5" /> Mesh
+            </button>
+            <button
+              onClick={() => imageInputRef.current?.click()}
+              disabled={isImporting}
+              className="flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+              title="Import a PNG, JPG or SVG image as a shape, keeping its colours"
+            >
+              <Upload className="w-2.5 h-2.5" /> Image
+            </button>
+            <button
+              onClick={() => setImageDepth(!imageDepth)}
+              className={`flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all
+                ${imageDepth
+                  ? 'bg-cyan-500/40 border border-cyan-400/60 text-cyan-200'
+                  : 'bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300'}
+              `}
+              title="Bright pixels of imported images come forward"
+            >
+              <Layers className="w-2.5 h-2.5" /> Depth
+            </button>
+          </div>
+          {isImporting && <p className="text-[8px] text-gray-500">Importing...</p>}
+          {activeImportedShape && (
+            <div className="flex items-center justify-between text-[9px] font-mono text-gray-300">
+              <span className="truncate">{activeImportedShape.name}</span>
+              <button onClick={() => handleDeleteShape(activeImportedShape)} className="text-gray-500 hover:text-red-400" title={`Delete ${activeImportedShape.name}`}>
+                <Trash2 className="w-2.5 h-2.5" />
+              </button>
+            </div>
+          )}
+          {importError && <p className="text-[8px] text-red-400">{importError}</p>}
+          {config.shape === ShapeType.TEXT && (
+            <div className="space-y-1">
+              <textarea
+                value={textDraft}
+                onChange={e => setTextDraft(e.target.value)}
+                onBlur={() => setText({ text: textDraft })}
+                onKeyDown={e => {
+                  // Enter applies, Shift+Enter starts a new line
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    setText({ text: textDraft });
+                  }
+                }}
+                rows={2}
+                placeholder="text (Shift+Enter for a new line)"
+                className="w-full resize-none bg-white/5 border border-white/10 rounded px-1.5 py-1 text-[9px] text-white placeholder-gray-600 outline-none focus:border-cyan-400/60"
+              />
+              <div className="flex gap-1">
+                <select
+                  value={config.text.font}
+                  onChange={e => setText({ font: e.target.value })}
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[8px] text-gray-200 outline-none focus:border-cyan-400/60"
+                >
+                  {/* A preset may name an uploaded font that isn't loaded in this session */}
+                  {(fonts.includes(config.text.font) ? fonts : [...fonts, config.text.font]).map(font => (
+                    <option key={font} value={font}>{font}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => fontInputRef.current?.click()}
+                  className="flex items-center gap-1 px-2 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300"
+                  title="Use a local TTF, OTF or WOFF font"
+                >
+                  <Upload className="w-2.5 h-2.5" /> Font
+                </button>
+              </div>
+              <div className="flex items-center gap-1.5 text-[7px] text-gray-500">
+                <span className="w-10 uppercase">Depth</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={config.text.depth}
+                  onChange={e => setText({ depth: Number(e.target.value) })}
+                  className="flex-1 h-1 accent-cyan-400"
+                />
+                <span className="w-6 font-mono text-right">{config.text.depth.toFixed(1)}</span>
+              </div>
+              {fontError && <p className="text-[8px] text-red-400">{fontError}</p>}
+              <input
+                ref={fontInputRef}
+                type="file"
+                accept={FONT_FILE_ACCEPT}
+                className="hidden"
+                onChange={e => { handleFontSelected(e.target.files?.[0]); e.target.value = ''; }}
+              />
+            </div>
+          )}
+          <input
+            ref={meshInputRef}
+            type="file"
+            accept={MESH_FILE_ACCEPT}
+            className="hidden"
+            onChange={e => { handleImport(e.target.files?.[0], 'mesh'); e.target.value = ''; }}
+          />
+          <input
+            ref={imageInputRef}
+            type="file"
+            accept={IMAGE_FILE_ACCEPT}
+            className="hidden"
+            onChange={e => { handleImport(e.target.files?.[0], 'image'); e.target.value = ''; }}
+          />
         </div>
 
         {/* Styles - Compact 2x2 */}
@@ -167,36 +423,365 @@ const Controls: React.FC<ControlsProps> = ({ config, setConfig, visualTension })
           </div>
         </div>
 
-        {/* Colors - Compact 4 only */}
+        {/* Trails - length slider, fade curve, points / lines */}
         <div className="space-y-1 mb-2">
-          <label className="text-[7px] font-bold text-gray-500 uppercase">Colors</label>
+          <div className="flex items-center justify-between">
+            <label className="text-[7px] font-bold text-gray-500 uppercase">Trail</label>
+            <span className="font-mono text-gray-600 text-[7px]">{config.trailLength}/{TRAIL_LENGTH}</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={TRAIL_LENGTH}
+            step={1}
+            value={config.trailLength}
+            onChange={e => setConfig(prev => ({ ...prev, trailLength: Number(e.target.value) }))}
+            className="w-full h-1 accent-cyan-400"
+          />
+          <div className="grid grid-cols-5 gap-1">
+            {Object.values(TrailFade).map(fade => (
+              <button
+                key={fade}
+                onClick={() => setConfig(prev => ({ ...prev, trailFade: fade }))}
+                className={`rounded py-1 transition-all text-[6px] font-semibold uppercase
+                  ${config.trailFade === fade
+                    ? 'bg-purple-500/40 border border-purple-400/60 text-purple-200'
+                    : 'bg-white/5 border border-white/10 text-gray-400'}
+                `}
+                title={`${fade} fade`}
+              >
+                {fade.slice(0, 4)}
+              </button>
+            ))}
+            {Object.values(TrailRender).map(render => (
+              <button
+                key={render}
+                onClick={() => setConfig(prev => ({ ...prev, trailRender: render }))}
+                className={`rounded py-1 transition-all text-[6px] font-semibold uppercase
+                  ${config.trailRender === render
+                    ? 'bg-cyan-500/40 border border-cyan-400/60 text-cyan-200'
+                    : 'bg-white/5 border border-white/10 text-gray-400'}
+                `}
+                title={`Draw trails as ${render.toLowerCase()}`}
+              >
+                {render}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Morph - easing curve, duration and per-particle stagger for shape changes */}
+        <div className="space-y-1 mb-2">
+          <label className="text-[7px] font-bold text-gray-500 uppercase">Morph</label>
           <div className="grid grid-cols-4 gap-1">
-            {COLORS.slice(0, 4).map((c) => (
+            {Object.values(MorphEasing).map(easing => (
+              <button
+                key={easing}
+                onClick={() => setConfig(prev => ({ ...prev, morphEasing: easing }))}
+                className={`rounded py-1 transition-all text-[6px] font-semibold uppercase
+                  ${config.morphEasing === easing
+                    ? 'bg-purple-500/40 border border-purple-400/60 text-purple-200'
+                    : 'bg-white/5 border border-white/10 text-gray-400'}
+                `}
+              >
+                {easing}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1.5 text-[7px] text-gray-500">
+            <span className="w-10 uppercase">Time</span>
+            <input
+              type="range"
+              min={0.2}
+              max={3}
+              step={0.1}
+              value={config.morphDuration}
+              onChange={e => setConfig(prev => ({ ...prev, morphDuration: Number(e.target.value) }))}
+              className="flex-1 h-1 accent-cyan-400"
+            />
+            <span className="w-6 font-mono text-right">{config.morphDuration.toFixed(1)}s</span>
+          </div>
+          <div className="flex items-center gap-1.5 text-[7px] text-gray-500">
+            <span className="w-10 uppercase">Stagger</span>
+            <input
+              type="range"
+              min={0}
+              max={0.8}
+              step={0.05}
+              value={config.morphStagger}
+              onChange={e => setConfig(prev => ({ ...prev, morphStagger: Number(e.target.value) }))}
+              className="flex-1 h-1 accent-cyan-400"
+            />
+            <span className="w-6 font-mono text-right">{Math.round(config.morphStagger * 100)}%</span>
+          </div>
+        </div>
+
+        {/* Colors - solid swatches, or a gradient placed by a driver */}
+        <div className="space-y-1 mb-2">
+          <label className="text-[7px] font-bold text-gray-500 uppercase">Colors</label>
+          <div className="grid grid-cols-9 gap-1">
+            {PRESET_COLORS.map((c) => (
               <button
                 key={c}
-                onClick={() => {
-                  setRainbowMode(false);
-                  setConfig(prev => ({ ...prev, color: c }));
-                }}
+                onClick={() => setConfig(prev => ({ ...prev, color: c, palette: { ...prev.palette, driver: 'solid' } }))}
                 className={`h-5 rounded border-2 transition-all
-                  ${config.color === c && !rainbowMode 
-                    ? 'scale-110 shadow-[0_0_8px_currentColor] border-white' 
+                  ${config.color === c && solidColor
+                    ? 'scale-110 shadow-[0_0_8px_currentColor] border-white'
                     : 'border-white/20 hover:border-white/40'}
                 `}
                 style={{ backgroundColor: c }}
               />
             ))}
+            <label
+              className={`relative h-5 rounded border-2 transition-all cursor-pointer flex items-center justify-center
+                ${customColor && solidColor
+                  ? 'scale-110 border-white'
+                  : 'border-white/20 hover:border-white/40'}
+              `}
+              style={{ backgroundColor: customColor ? config.color : 'transparent' }}
+              title="Pick any colour"
+            >
+              {!customColor && <Pipette className="w-2.5 h-2.5 text-gray-400" />}
+              <input
+                type="color"
+                value={config.color}
+                onChange={e => setConfig(prev => ({ ...prev, color: e.target.value, palette: { ...prev.palette, driver: 'solid' } }))}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              />
+            </label>
           </div>
-          <button
-            onClick={() => setRainbowMode(!rainbowMode)}
-            className={`w-full py-1 rounded text-[8px] font-semibold uppercase transition-all
-              ${rainbowMode 
-                ? 'bg-gradient-to-r from-pink-500/40 to-purple-500/40 border border-purple-400/60 text-purple-200' 
-                : 'bg-white/5 border border-white/10 text-gray-400 hover:text-white'}
-            `}
-          >
-            {rainbowMode ? 'Rainbow ON' : 'Rainbow OFF'}
+          <div className="grid grid-cols-7 gap-1">
+            {COLOR_DRIVERS.map(driver => (
+              <button
+                key={driver}
+                onClick={() => setPalette({ driver })}
+                className={`rounded py-1 transition-all text-[6px] font-semibold uppercase
+                  ${config.palette.driver === driver
+                    ? 'bg-purple-500/40 border border-purple-400/60 text-purple-200'
+                    : 'bg-white/5 border border-white/10 text-gray-400'}
+                `}
+                title={COLOR_DRIVER_LABELS[driver].title}
+              >
+                {COLOR_DRIVER_LABELS[driver].label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-5 gap-1">
+            {BUILTIN_PALETTES.map(palette => (
+              <button
+                key={palette.name}
+                onClick={() => setPalette({ stops: palette.stops, driver: solidColor ? palette.driver : config.palette.driver })}
+                className="h-4 rounded border border-white/20 hover:border-white/50 transition-all text-[6px] font-semibold uppercase text-white [text-shadow:0_0_3px_black]"
+                style={{ background: paletteCss(palette.stops) }}
+                title={`${palette.name} gradient`}
+              >
+                {palette.name}
+              </button>
+            ))}
+          </div>
+
+          {/* Gradient editor - collapsible */}
+          <button onClick={() => togglePanel('colors')} className="w-full flex items-center gap-1.5">
+            <div className="flex-1 h-2 rounded border border-white/20" style={{ background: paletteCss(config.palette.stops) }} />
+            {expandedPanel === 'colors' ? <ChevronDown className="w-2.5 h-2.5 text-gray-500" /> : <ChevronUp className="w-2.5 h-2.5 text-gray-500" />}
+          </button>
+          {expandedPanel === 'colors' && (
+            <div className="space-y-1">
+              {config.palette.stops.map((stop, index) => (
+                <div key={index} className="flex items-center gap-1.5 text-[7px] text-gray-500">
+                  <label className="relative w-5 h-3 rounded border border-white/30 cursor-pointer" style={{ backgroundColor: stop.color }}>
+                    <input
+                      type="color"
+                      value={stop.color}
+                      onChange={e => setStop(index, { color: e.target.value })}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                    />
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={stop.position}
+                    onChange={e => setStop(index, { position: Number(e.target.value) })}
+                    className="flex-1 h-1 accent-cyan-400"
+                  />
+                  <span className="w-6 font-mono text-right">{Math.round(stop.position * 100)}%</span>
+                  <button
+                    onClick={() => setPalette({ stops: config.palette.stops.filter((_, i) => i !== index) })}
+                    disabled={config.palette.stops.length <= 1}
+                    className="text-gray-500 hover:text-red-400 disabled:opacity-30"
+                    title="Remove stop"
+                  >
+                    <Trash2 className="w-2.5 h-2.5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setPalette({ stops: [...config.palette.stops, splitWidestGap(config.palette.stops)] })}
+                disabled={config.palette.stops.length >= MAX_GRADIENT_STOPS}
+                className="w-full flex items-center justify-center gap-1 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+              >
+                <Plus className="w-2.5 h-2.5" /> Add Stop
+              </button>
+              <div className="flex items-center gap-1.5 text-[7px] text-gray-500" title="Sweeps through the gradient per second with the Time driver">
+                <span className="w-10 uppercase">Cycle</span>
+                <input
+                  type="range"
+                  min={0.05}
+                  max={2}
+                  step={0.05}
+                  value={config.palette.cycleRate}
+                  onChange={e => setPalette({ cycleRate: Number(e.target.value) })}
+                  className="flex-1 h-1 accent-cyan-400"
+                />
+                <span className="w-6 font-mono text-right">{config.palette.cycleRate.toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Post-processing effects - collapsible */}
+        <div className="space-y-1 mb-2">
+          <button onClick={() => togglePanel('effects')} className="w-full flex items-center justify-between">
+            <label className="text-[7px] font-bold text-gray-500 uppercase">Effects</label>
+            {expandedPanel === 'effects' ? <ChevronDown className="w-2.5 h-2.5 text-gray-500" /> : <ChevronUp className="w-2.5 h-2.5 text-gray-500" />}
+          </button>
+          {expandedPanel === 'effects' && (
+            <div className="space-y-1">
+              {POST_EFFECTS.map(<E extends PostEffect>(effect: E) => {
+                const settings = config.postProcessing[effect];
+                const effectValues: EffectValues = config.postProcessing;
+                const values = effectValues[effect];
+                const paused = settings.enabled && !allowedEffects.includes(effect);
+                return (
+                  <div key={effect} className="space-y-0.5">
+                    <button
+                      onClick={() => setEffect(effect, { enabled: !settings.enabled })}
+                      className={`w-full flex items-center justify-between px-1.5 py-0.5 rounded text-[8px] font-semibold uppercase transition-all
+                        ${settings.enabled
+                          ? 'bg-purple-500/40 border border-purple-400/60 text-purple-200'
+                          : 'bg-white/5 border border-white/10 text-gray-400'}
+                      `}
+                      title={paused ? 'Paused by the quality governor to keep the frame rate up' : undefined}
+                    >
+                      {EFFECT_CONTROLS[effect].label}
+                      <span className="text-[7px] font-mono">{paused ? 'paused' : settings.enabled ? 'on' : 'off'}</span>
+                    </button>
+                    {settings.enabled && EFFECT_CONTROLS[effect].params.map(param => (
+                      <div key={param.key} className="flex items-center gap-1.5 text-[7px] text-gray-500">
+                        <span className="w-10 uppercase">{param.label}</span>
+                        <input
+                          type="range"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          value={values[param.key]}
+                          onChange={e => setEffect(effect, { [param.key]: Number(e.target.value) })}
+                          className="flex-1 h-1 accent-cyan-400"
+                        />
+                        <span className="w-8 font-mono text-right">{Number(values[param.key].toFixed(4))}</span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+              <button
+                onClick={() => setConfig(prev => ({ ...prev, postProcessing: DEFAULT_POST_PROCESSING }))}
+                className="w-full py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300"
+              >
+                Reset Effects
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Gesture Bindings - collapsible */}
+        <div className="space-y-1 mb-2">
+          <button onClick={() => togglePanel('bindings')} className="w-full flex items-center justify-between">
+            <label className="text-[7px] font-bold text-gray-500 uppercase">Gesture Bindings</label>
+            {expandedPanel === 'bindings' ? <ChevronDown className="w-2.5 h-2.5 text-gray-500" /> : <ChevronUp className="w-2.5 h-2.5 text-gray-500" />}
+          </button>
+          {expandedPanel === 'bindings' && (
+            <div className="space-y-1">
+              {bindableGestures.map(gesture => (
+                <div key={gesture} className="flex items-center justify-between gap-2">
+                  <span className="text-[8px] font-mono text-gray-300 truncate">{gestureLabel(gesture)}</span>
+                  <select
+                    value={config.gestureBindings[gesture] ?? 'none'}
+                    onChange={e => setBinding(gesture, e.target.value as GestureBinding)}
+                    className="w-28 bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[8px] text-gray-200 outline-none focus:border-cyan-400/60"
+                  >
+                    <optgroup label="While held">
+                      {PARTICLE_BEHAVIORS.map(b => <option key={b} value={b}>{BINDING_LABELS[b]}</option>)}
+                    </optgroup>
+                    <optgroup label="On start">
+                      {BINDABLE_ACTIONS.map(a => <option key={a} value={a}>{BINDING_LABELS[a]}</option>)}
+                    </optgroup>
+                  </select>
+                </div>
+              ))}
+              <label className="block pt-1 text-[7px] font-bold text-gray-500 uppercase">Motion</label>
+              {MOTION_GESTURES.map(gesture => (
+                <div key={gesture} className="flex items-center justify-between gap-2">
+                  <span className="text-[8px] font-mono text-gray-300 truncate">{gestureLabel(gesture)}</span>
+                  <select
+                    value={actionFor(config.gestureBindings, gesture)}
+                    onChange={e => setBinding(gesture, e.target.value as GestureBinding)}
+                    className="w-28 bg-white/5 border border-white/10 rounded px-1 py-0.5 text-[8px] text-gray-200 outline-none focus:border-cyan-400/60"
+                  >
+                    {(['none', ...BINDABLE_ACTIONS] as const).map(a => <option key={a} value={a}>{BINDING_LABELS[a]}</option>)}
+                  </select>
+                </div>
+              ))}
+              <button
+                onClick={() => setConfig(prev => ({ ...prev, gestureBindings: DEFAULT_GESTURE_BINDINGS }))}
+                className="w-full py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300"
+              >
+                Reset Bindings
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Presets - collapsible */}
+        <div className="space-y-1 mb-2">
+          <button onClick={() => togglePanel('presets')} className="w-full flex items-center justify-between">
+            <label className="text-[7px] font-bold text-gray-500 uppercase">Presets</label>
+            {expandedPanel === 'presets' ? <ChevronDown className="w-2.5 h-2.5 text-gray-500" /> : <ChevronUp className="w-2.5 h-2.5 text-gray-500" />}
           </button>
+          {expandedPanel === 'presets' && (
+            <div className="space-y-1">
+              <div className="flex gap-1">
+                <input
+                  value={presetName}
+                  onChange={e => setPresetName(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleSavePreset()}
+                  placeholder="preset name"
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-1.5 py-1 text-[9px] text-white placeholder-gray-600 outline-none focus:border-cyan-400/60"
+                />
+                <button
+                  onClick={handleSavePreset}
+                  disabled={!presetName.trim()}
+                  className="flex items-center gap-1 px-2 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300 disabled:opacity-30"
+                  title="Save the current settings"
+                >
+                  <Save className="w-2.5 h-2.5" /> Save
+                </button>
+              </div>
+              {presets.map(preset => (
+                <div key={preset.name} className="flex items-center justify-between text-[9px] font-mono text-gray-300">
+                  <button onClick={() => handleLoadPreset(preset)} className="truncate hover:text-cyan-300" title={`Load ${preset.name}`}>
+                    {preset.name}
+                  </button>
+                  <button onClick={() => setPresets(deletePreset(preset.name))} className="text-gray-500 hover:text-red-400" title={`Delete ${preset.name}`}>
+                    <Trash2 className="w-2.5 h-2.5" />
+                  </button>
+                </div>
+              ))}
+              {presets.length === 0 && <p className="text-[7px] text-gray-500">No saved presets yet.</p>}
+            </div>
+          )}
         </div>
 
         {/* Tension Bar */}
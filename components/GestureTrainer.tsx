@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import {
+  GestureModel, GestureSample, SampleCollector,
+  trainModel, saveGestureModel, clearGestureModel,
+} from '../utils/gestureClassifier';
+import { Brain, Circle, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface GestureTrainerProps {
+  collector: SampleCollector;
+  model: GestureModel | null;
+  onModelChange: (model: GestureModel | null) => void;
+}
+
+// How long one "Record" press samples the hand
+const RECORD_DURATION_MS = 1500;
+
+const GestureTrainer: React.FC<GestureTrainerProps> = ({ collector, model, onModelChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [label, setLabel] = useState('');
+  const [samples, setSamples] = useState<GestureSample[]>(() => model?.samples ?? []);
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Move collected samples into the dataset once recording finishes
+  useEffect(() => {
+    if (!isCollecting) return;
+    const interval = setInterval(() => {
+      if (collector.isCollecting) return;
+      const collected = collector.take();
+      setSamples(prev => [...prev, ...collected]);
+      setMessage(collected.length ? `+${collected.length} samples` : 'No hand seen - try again');
+      setIsCollecting(false);
+    }, 100);
+    return () => clearInterval(interval);
+  }, [isCollecting, collector]);
+
+  // A recording left running would keep labelling frames after the panel is gone
+  useEffect(() => () => collector.stop(), [collector]);
+
+  const counts = samples.reduce<Record<string, number>>((acc, s) => {
+    acc[s.label] = (acc[s.label] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  const startRecording = () => {
+    const name = label.trim().toLowerCase().replace(/\s+/g, '_');
+    if (!name) return;
+    collector.start(name, RECORD_DURATION_MS);
+    setIsCollecting(true);
+    setMessage(null);
+  };
+
+  const train = () => {
+    try {
+      const trained = trainModel(samples);
+      saveGestureModel(trained);
+      onModelChange(trained);
+      setMessage(`Trained on ${samples.length} samples`);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Training failed');
+    }
+  };
+
+  const removeLabel = (name: string) => {
+    setSamples(prev => prev.filter(s => s.label !== name));
+  };
+
+  const reset = () => {
+    setSamples([]);
+    clearGestureModel();
+    onModelChange(null);
+    setMessage('Using built-in gestures only');
+  };
+
+  return (
+    <div className="w-56 bg-black/75 backdrop-blur-xl border border-white/20 rounded-xl p-3 shadow-lg hover:border-white/30 transition-colors duration-300">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex items-center justify-between">
+        <h2 className="text-xs font-bold text-cyan-400 uppercase tracking-wider flex items-center gap-1">
+          <Brain className="w-3 h-3" /> Gestures
+        </h2>
+        <span className="flex items-center gap-1 text-[8px] font-mono text-gray-500">
+          {model ? `${Object.keys(counts).length} trained` : 'built-in'}
+          {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-1">
+          <div className="flex gap-1">
+            <input
+              value={label}
+              onChange={e => setLabel(e.target.value)}
+              placeholder="label (e.g. rock, peace)"
+              className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-1.5 py-1 text-[9px] text-white placeholder-gray-600 outline-none focus:border-cyan-400/60"
+            />
+            <button
+              onClick={startRecording}
+              disabled={isCollecting || !label.trim()}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-[8px] font-semibold uppercase transition-all disabled:opacity-30
+                ${isCollecting ? 'bg-red-500/40 border border-red-400/60 text-red-200' : 'bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300'}
+              `}
+              title="Hold the pose while recording"
+            >
+              <Circle className="w-2.5 h-2.5" /> {isCollecting ? '...' : 'Rec'}
+            </button>
+          </div>
+
+          {Object.entries(counts).map(([name, count]) => (
+            <div key={name} className="flex items-center justify-between text-[9px] font-mono text-gray-300">
+              <span>{name}</span>
+              <span className="flex items-center gap-1 text-gray-500">
+                {count}
+                <button onClick={() => removeLabel(name)} className="hover:text-red-400" title={`Delete ${name} samples`}>
+                  <Trash2 className="w-2.5 h-2.5" />
+                </button>
+              </span>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-2 gap-1">
+            <button
+              onClick={train}
+              disabled={samples.length === 0}
+              className="py-1 rounded text-[8px] font-semibold uppercase transition-all bg-cyan-500/30 border border-cyan-400/50 text-cyan-200 disabled:opacity-30"
+            >
+              Train & Save
+            </button>
+            <button
+              onClick={reset}
+              className="py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-red-300"
+            >
+              Clear
+            </button>
+          </div>
+
+          <p className="text-[7px] text-gray-500">
+            Labels named like a built-in gesture (point, pinch, peace...) override it.
+          </p>
+          {message && <p className="text-[8px] text-gray-300 font-mono">{message}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GestureTrainer;
@@ -1,282 +1,318 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
-import { HandTrackingResult, GestureType } from '../types';
-import { RefreshCw, CameraOff, Loader2 } from 'lucide-react';
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { HandTrackingResult, HandData, Handedness, CalibrationProfile, DEFAULT_CALIBRATION } from '../types';
+import { Landmark, analyzeHand, computeTwoHandSignals, buildTrackingResult, getPrimaryHand } from '../utils/handAnalysis';
+import { createClapDetector } from '../utils/clapDetector';
+import { createMotionRecognizer, MotionRecognizer } from '../utils/motionGestures';
+import { createGestureStabilizer, GestureStabilizer, GestureStabilizerOptions } from '../utils/gestureStabilizer';
+import { createLandmarkSmoother, LandmarkSmoother, SmoothingOptions } from '../utils/landmarkFilters';
+import { resolveMediaPipeAssets } from '../utils/mediapipeAssets';
+import { GestureModel, createModelGestureResolver } from '../utils/gestureClassifier';
+import {
+  createInputSource, needsDetector, uniqueHandedness, DEFAULT_INPUT_SOURCE,
+  InputSource, InputSourceConfig, InputSourceKind, LandmarkFrame,
+} from '../utils/inputSources';
+import { Profiler } from '../utils/profiler';
+import { loadCalibration, saveCalibration, clearCalibration, computeCalibration } from '../utils/calibration';
+import { RefreshCw, CameraOff, Loader2, Crosshair, RotateCcw, Camera, Film, FileJson } from 'lucide-react';
 
 interface HandTrackerProps {
   onUpdate: (result: HandTrackingResult) => void;
+  gestureStability?: Partial<GestureStabilizerOptions>; // Hysteresis / hold-time tuning
+  smoothing?: Partial<SmoothingOptions>; // Landmark filter (One Euro by default)
+  source?: InputSourceConfig; // Initial input (webcam by default)
+  onFrame?: (frame: LandmarkFrame, result: HandTrackingResult) => void; // Raw frame + result, for recording
+  gestureModel?: GestureModel | null; // Trained gestures, checked before the built-in rules
+  inferenceRate?: number; // Max detections per second, 0 = every video frame (lowered by the quality governor)
+  profiler?: Profiler; // Receives detectForVideo latency and the tracking rate
 }
 
-const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate }) => {
+type CalibrationStep = 'idle' | 'open' | 'fist';
+
+// Each calibration pose: time to form it, then time spent sampling it
+const CALIBRATION_SETTLE_MS = 1000;
+const CALIBRATION_RECORD_MS = 2000;
+
+// Per-hand filtering state, reset whenever that hand leaves the frame
+interface HandPipeline {
+  smoother: LandmarkSmoother;
+  stabilizer: GestureStabilizer;
+  motion: MotionRecognizer;
+}
+
+const SOURCE_BUTTONS: { kind: InputSourceKind; icon: typeof Camera; label: string }[] = [
+  { kind: 'webcam', icon: Camera, label: 'Live camera' },
+  { kind: 'video', icon: Film, label: 'Play a video file' },
+  { kind: 'recording', icon: FileJson, label: 'Replay a landmark recording (JSON)' },
+];
+
+const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate, gestureStability, smoothing, source, onFrame, gestureModel, inferenceRate = 0, profiler }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const handLandmarkerRef = useRef<HandLandmarker | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
-  const lastVideoTimeRef = useRef<number>(-1);
-  const lastGestureRef = useRef<GestureType>('none');
-  const gestureHysteresisRef = useRef<number>(0);
+  const landmarkerLoadRef = useRef<Promise<void> | null>(null); // Shared by overlapping startSource calls
+  const sourceRef = useRef<InputSource | null>(null);
+  const startIdRef = useRef(0); // Bumped per startSource call and on cleanup; stale calls give up
+  const inferenceRateRef = useRef(inferenceRate);
+  const [sourceConfig, setSourceConfig] = useState<InputSourceConfig>(source ?? DEFAULT_INPUT_SOURCE);
+  const videoFileInputRef = useRef<HTMLInputElement>(null);
+  const recordingFileInputRef = useRef<HTMLInputElement>(null);
+  // One pipeline per hand so both hands smooth and debounce independently
+  const handPipelinesRef = useRef<Record<Handedness, HandPipeline>>({
+    left: {
+      smoother: createLandmarkSmoother(smoothing),
+      stabilizer: createGestureStabilizer(gestureStability),
+      motion: createMotionRecognizer('left'),
+    },
+    right: {
+      smoother: createLandmarkSmoother(smoothing),
+      stabilizer: createGestureStabilizer(gestureStability),
+      motion: createMotionRecognizer('right'),
+    },
+  });
+  const clapDetectorRef = useRef(createClapDetector());
+  const classifyGestureRef = useRef<ReturnType<typeof createModelGestureResolver> | undefined>(undefined);
+
+  // Personal tension / extension thresholds, applied from localStorage on startup
+  const calibrationRef = useRef<CalibrationProfile>(loadCalibration() ?? DEFAULT_CALIBRATION);
+  const [isCalibrated, setIsCalibrated] = useState(() => loadCalibration() !== null);
+  const wizardRef = useRef<{ step: CalibrationStep; stepStart: number; open: Landmark[][]; fist: Landmark[][] }>({
+    step: 'idle', stepStart: 0, open: [], fist: [],
+  });
+  const [calibrationStep, setCalibrationStep] = useState<CalibrationStep>('idle');
+  const [calibrationMessage, setCalibrationMessage] = useState<string | null>(null);
 
-  // Initialize MediaPipe
+  // Initialize MediaPipe (only needed for webcam / video sources)
   const initializeMediaPipe = async () => {
     try {
-      setLoading(true);
-      setError(null);
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-      );
+      // Self-hosted assets (no CDN) so exhibitions can run offline
+      const { wasmPath, modelPath } = await resolveMediaPipeAssets();
+      const vision = await FilesetResolver.forVisionTasks(wasmPath);
       
       handLandmarkerRef.current = await HandLandmarker.createFromOptions(vision, {
         baseOptions: {
-          modelAssetPath: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+          modelAssetPath: modelPath,
           delegate: "GPU"
         },
         runningMode: "VIDEO",
-        numHands: 1
+        numHands: 2
       });
-      
-      startCamera();
     } catch (err) {
       console.error(err);
-      setError("Failed to load AI models.");
-      setLoading(false);
+      // Asset / version problems carry their own message
+      throw new Error(err instanceof Error && err.message.startsWith('MediaPipe') ? err.message : "Failed to load AI models.");
     }
   };
 
-  const startCamera = async () => {
+  // One landmarker however many sources start while it loads; a failed load can be retried
+  const loadLandmarker = () => {
+    landmarkerLoadRef.current ??= initializeMediaPipe().catch(err => {
+      landmarkerLoadRef.current = null;
+      throw err;
+    });
+    return landmarkerLoadRef.current;
+  };
+
+  const detect = (video: HTMLVideoElement, timestamp: number) => {
+    const start = performance.now();
+    const result = handLandmarkerRef.current!.detectForVideo(video, timestamp);
+    profiler?.recordDetection(performance.now() - start);
+    return result;
+  };
+
+  const startSource = async (config: InputSourceConfig) => {
+    const startId = ++startIdRef.current;
+    const isCurrent = () => startIdRef.current === startId;
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    resetLostHands([]);
+    clearCanvas();
+
     try {
-      // Optimized video constraints for better performance
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { 
-          width: { ideal: 240 },
-          height: { ideal: 180 },
-          facingMode: 'user'
-        } 
-      });
-      
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.addEventListener('loadeddata', predictWebcam);
+      setLoading(true);
+      setError(null);
+      if (needsDetector(config)) {
+        await loadLandmarker();
       }
+      // Superseded by a newer source, or unmounted, while the models loaded
+      if (!isCurrent() || !videoRef.current) return;
+
+      const input = createInputSource(config, videoRef.current, detect);
+      input.setInferenceRate(inferenceRateRef.current);
+      sourceRef.current = input;
+      await input.start(processFrame);
+      // A newer call or the cleanup has already stopped this source; stopping
+      // it again would reset the <video> the next source is using
+      if (!isCurrent()) return;
       setLoading(false);
     } catch (err) {
-      console.error(err);
-      setError("Camera access denied.");
+      if (!isCurrent()) return;
+      setError(err instanceof Error ? err.message : "Failed to start input.");
       setLoading(false);
     }
   };
 
-  const calculateTension = (landmarks: any[]): number => {
-    // Simple method: measure distance between fingertips
-    // When hand is open, fingers are far apart
-    // When hand is closed (fist), fingers are close together
-    
-    const wrist = landmarks[0];
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    const middleTip = landmarks[12];
-    const ringTip = landmarks[16];
-    const pinkyTip = landmarks[20];
-    
-    // Calculate distances from wrist to each fingertip
-    const distances = [thumbTip, indexTip, middleTip, ringTip, pinkyTip].map(tip => {
-      return Math.sqrt(
-        Math.pow(wrist.x - tip.x, 2) + 
-        Math.pow(wrist.y - tip.y, 2) + 
-        Math.pow(wrist.z - tip.z, 2)
-      );
-    });
-    
-    const avgDistance = distances.reduce((a, b) => a + b, 0) / distances.length;
-    
-    // Reference: palm size (wrist to middle finger base)
-    const middleBase = landmarks[9];
-    const palmSize = Math.sqrt(
-      Math.pow(wrist.x - middleBase.x, 2) + 
-      Math.pow(wrist.y - middleBase.y, 2) + 
-      Math.pow(wrist.z - middleBase.z, 2)
-    );
-    
-    // Normalize by palm size
-    const normalizedDist = avgDistance / palmSize;
-    
-    // CALIBRATED MAPPING based on observed values:
-    // Fist (closed): 0.80-0.86
-    // Open hand: 1.69-1.75
-    const closedValue = 0.80;  // Tight fist
-    const openValue = 1.75;    // Fully open hand
-    
-    // Map to 0 (open) to 1 (closed)
-    let tension = (openValue - normalizedDist) / (openValue - closedValue);
-    tension = Math.max(0, Math.min(1, tension));
-    
-    return tension;
+  // Local files play through the same pipeline as the camera
+  const handleFileSelected = (kind: 'video' | 'recording', file: File | undefined) => {
+    if (!file) return;
+    setSourceConfig({ kind, url: URL.createObjectURL(file) });
   };
 
-  // Helper: distance between two 3D points
-  const distance3D = (p1: any, p2: any): number => {
-    return Math.sqrt(
-      Math.pow(p1.x - p2.x, 2) + 
-      Math.pow(p1.y - p2.y, 2) + 
-      Math.pow(p1.z - p2.z, 2)
-    );
+  // A hand that left the frame starts fresh (no smoothing lag, gesture 'none') when it returns
+  const resetLostHands = (visible: Handedness[]) => {
+    (['left', 'right'] as Handedness[]).forEach(h => {
+      if (!visible.includes(h)) {
+        handPipelinesRef.current[h].smoother.reset();
+        handPipelinesRef.current[h].stabilizer.reset();
+        handPipelinesRef.current[h].motion.reset();
+      }
+    });
   };
 
-  // Helper: check if finger is extended
-  const isFingerExtended = (landmarks: any[], fingerBase: number, fingerTip: number): boolean => {
-    const base = landmarks[fingerBase];
-    const tip = landmarks[fingerTip];
-    const dist = distance3D(base, tip);
-    return dist > 0.04; // Lower threshold for more sensitive detection
+  const processFrame = (frame: LandmarkFrame) => {
+    profiler?.recordTrackingFrame(performance.now());
+    const result = analyzeFrame(frame);
+    onUpdate(result);
+    onFrame?.(frame, result);
   };
 
-  // Detect all gestures with simple, stable logic
-  const detectGesture = (landmarks: any[], tension: number): GestureType => {
-    const thumbTip = landmarks[4];
-    const indexTip = landmarks[8];
-    const middleTip = landmarks[12];
-    const ringTip = landmarks[16];
-    const pinkyTip = landmarks[20];
-
-    // Check finger extensions
-    const thumbExt = isFingerExtended(landmarks, 2, 4);
-    const indexExt = isFingerExtended(landmarks, 5, 8);
-    const middleExt = isFingerExtended(landmarks, 9, 12);
-    const ringExt = isFingerExtended(landmarks, 13, 16);
-    const pinkyExt = isFingerExtended(landmarks, 17, 20);
-
-    // Count extended fingers
-    const extendedCount = [thumbExt, indexExt, middleExt, ringExt, pinkyExt].filter(e => e).length;
-
-    // 1. PEACE SIGN: exactly index + middle extended
-    if (indexExt && middleExt && !ringExt && !pinkyExt && tension < 0.5) {
-      return 'peace';
-    }
+  const analyzeFrame = (frame: LandmarkFrame): HandTrackingResult => {
+    const { timestamp } = frame;
+    const hands = uniqueHandedness(frame.hands);
+    if (hands.length > 0) {
+      const analyzed = hands.map(({ handedness, landmarks: rawLandmarks }) => {
+        const { smoother, stabilizer } = handPipelinesRef.current[handedness];
+        // Smooth before any tension / gesture math so jitter never reaches the shader
+        const landmarks = smoother.filter(rawLandmarks, timestamp);
+        return {
+          landmarks,
+          hand: analyzeHand(landmarks, handedness, {
+            calibration: calibrationRef.current,
+            classifyGesture: classifyGestureRef.current,
+            resolveGesture: raw => stabilizer.update(raw, timestamp),
+          }),
+        };
+      });
 
-    // 2. POINTING: only index extended (hand closed otherwise)
-    if (indexExt && !middleExt && !ringExt && !pinkyExt && tension > 0.4) {
-      return 'point';
-    }
+      resetLostHands(analyzed.map(a => a.hand.handedness));
+      // Sample the hand that drives tension, so both wizard steps see the same hand
+      const primary = getPrimaryHand(analyzed.map(a => a.hand));
+      advanceCalibration(analyzed.find(a => a.hand === primary)?.landmarks, timestamp);
 
-    // 3. PINCH: thumb and index close + hand mostly closed
-    const thumbIndexDist = distance3D(thumbTip, indexTip);
-    if (thumbIndexDist < 0.08 && tension > 0.6) {
-      return 'pinch';
-    }
+      // Two-hand signals need one left and one right hand
+      const left = analyzed.find(a => a.hand.handedness === 'left');
+      const right = analyzed.find(a => a.hand.handedness === 'right');
+      const twoHand = left && right ? computeTwoHandSignals(left, right) : undefined;
+      const clap = clapDetectorRef.current.update(twoHand, timestamp);
 
-    // 4. PALM UP/DOWN: most fingers extended + check orientation
-    if (extendedCount >= 4 && tension < 0.3) {
-      // Simple Y-axis orientation check based on hand position trend
-      // If hand is opening upward -> palm up
-      // If hand is opening downward -> palm down
-      const avgY = (indexTip.y + middleTip.y + ringTip.y + pinkyTip.y) / 4;
-      const thumbY = thumbTip.y;
-      
-      if (avgY > thumbY + 0.1) {
-        return 'palm_down';
-      } else if (avgY < thumbY - 0.1) {
-        return 'palm_up';
-      }
+      // Motion gestures from each hand's trajectory (first one wins this frame)
+      const motion = analyzed
+        .map(a => handPipelinesRef.current[a.hand.handedness].motion.update(a.landmarks, timestamp))
+        .find(event => event !== null);
+
+      drawHands(analyzed);
+      // Hands rushing together for a clap also look like swipes - the clap wins
+      return buildTrackingResult(analyzed.map(a => a.hand), { twoHand, clap, motion: clap ? null : motion });
+    } else {
+      resetLostHands([]);
+      advanceCalibration(undefined, timestamp);
+      const clap = clapDetectorRef.current.update(undefined, timestamp);
+      clearCanvas();
+      return buildTrackingResult([], { clap });
     }
+  };
 
-    return 'none';
+  const startCalibration = () => {
+    // stepStart is taken from the next frame, so it matches the source's clock
+    wizardRef.current = { step: 'open', stepStart: -1, open: [], fist: [] };
+    setCalibrationStep('open');
+    setCalibrationMessage(null);
   };
 
-  // Get position data for specific gestures
-  const getGesturePositions = (landmarks: any[], gesture: GestureType) => {
-    const result: Partial<HandTrackingResult> = {};
-
-    if (gesture === 'point') {
-      // Index fingertip
-      result.fingerTip = landmarks[8];
-    } else if (gesture === 'pinch') {
-      // Average of thumb and index
-      const thumb = landmarks[4];
-      const index = landmarks[8];
-      result.pinchPosition = {
-        x: (thumb.x + index.x) / 2,
-        y: (thumb.y + index.y) / 2,
-        z: (thumb.z + index.z) / 2,
-      };
-    } else if (gesture === 'peace') {
-      // Index and middle finger positions
-      result.peaceOrbit1 = landmarks[8];
-      result.peaceOrbit2 = landmarks[12];
-    }
+  const resetCalibration = () => {
+    clearCalibration();
+    calibrationRef.current = DEFAULT_CALIBRATION;
+    setIsCalibrated(false);
+    setCalibrationMessage('Using default thresholds');
+  };
 
-    return result;
+  const finishCalibration = (message: string) => {
+    wizardRef.current.step = 'idle';
+    setCalibrationStep('idle');
+    setCalibrationMessage(message);
   };
 
-  const predictWebcam = () => {
-    if (!videoRef.current || !handLandmarkerRef.current) return;
-    
-    const startTimeMs = performance.now();
-    
-    if (videoRef.current.currentTime !== lastVideoTimeRef.current) {
-      lastVideoTimeRef.current = videoRef.current.currentTime;
-      const detections = handLandmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-      
-      processDetections(detections);
+  // Calibration wizard: sample an open hand, then a fist, then compute thresholds
+  const advanceCalibration = (landmarks: Landmark[] | undefined, timestamp: number) => {
+    const wizard = wizardRef.current;
+    if (wizard.step === 'idle') return;
+    if (wizard.stepStart < 0) wizard.stepStart = timestamp;
+
+    const elapsed = timestamp - wizard.stepStart;
+    if (landmarks && elapsed > CALIBRATION_SETTLE_MS) {
+      wizard[wizard.step].push(landmarks);
     }
-    
-    animationFrameRef.current = requestAnimationFrame(predictWebcam);
-  };
+    if (elapsed < CALIBRATION_SETTLE_MS + CALIBRATION_RECORD_MS) return;
 
-  const processDetections = (result: HandLandmarkerResult) => {
-    if (result.landmarks && result.landmarks.length > 0) {
-      const landmarks = result.landmarks[0];
-      const tension = calculateTension(landmarks);
-      const gesture = detectGesture(landmarks, tension);
-      
-      const handData: HandTrackingResult = {
-        isDetected: true,
-        tension,
-        gesture,
-        ...getGesturePositions(landmarks, gesture),
-      };
-      
-      onUpdate(handData);
-      drawHand(landmarks, tension, gesture);
-    } else {
-      onUpdate({ isDetected: false, tension: 0, gesture: 'none' });
-      clearCanvas();
+    if (wizard.step === 'open') {
+      wizard.step = 'fist';
+      wizard.stepStart = timestamp;
+      setCalibrationStep('fist');
+      return;
+    }
+
+    try {
+      const profile = computeCalibration(wizard.open, wizard.fist);
+      saveCalibration(profile);
+      calibrationRef.current = profile;
+      setIsCalibrated(true);
+      finishCalibration('Calibration saved');
+    } catch (err) {
+      finishCalibration(err instanceof Error ? err.message : 'Calibration failed.');
     }
   };
 
-  const drawHand = (landmarks: any[], tension: number, gesture: GestureType) => {
+  const drawHands = (analyzed: { landmarks: Landmark[]; hand: HandData }[]) => {
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx || !canvasRef.current || !videoRef.current) return;
     
-    // Match dimensions
-    if (canvasRef.current.width !== videoRef.current.videoWidth) {
-      canvasRef.current.width = videoRef.current.videoWidth;
-      canvasRef.current.height = videoRef.current.videoHeight;
+    // Match dimensions (recordings have no video - use the camera's ideal size)
+    const width = videoRef.current.videoWidth || 240;
+    const height = videoRef.current.videoHeight || 180;
+    if (canvasRef.current.width !== width) {
+      canvasRef.current.width = width;
+      canvasRef.current.height = height;
     }
 
     ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    
-    // Color changes based on tension: cyan (open) to red (closed)
-    const r = Math.floor(tension * 255);
-    const g = Math.floor((1 - tension) * 200);
-    const b = Math.floor((1 - tension) * 255);
-    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.8)`;
-    ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, 0.4)`;
-    ctx.lineWidth = 2;
-
-    // Draw landmarks
-    landmarks.forEach(lm => {
-      const x = lm.x * canvasRef.current!.width;
-      const y = lm.y * canvasRef.current!.height;
-      ctx.beginPath();
-      ctx.arc(x, y, 4, 0, 2 * Math.PI);
-      ctx.fill();
-    });
-    
-    // Draw tension indicator and gesture
-    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.9)`;
     ctx.font = 'bold 16px monospace';
-    ctx.fillText(`${Math.round((1-tension) * 100)}% | ${gesture}`, 10, 25);
+
+    analyzed.forEach(({ landmarks, hand }, handIndex) => {
+      const { tension, gesture } = hand;
+
+      // Color changes based on tension: cyan (open) to red (closed)
+      const r = Math.floor(tension * 255);
+      const g = Math.floor((1 - tension) * 200);
+      const b = Math.floor((1 - tension) * 255);
+      ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.8)`;
+      ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, 0.4)`;
+      ctx.lineWidth = 2;
+
+      // Draw landmarks
+      landmarks.forEach(lm => {
+        const x = lm.x * canvasRef.current!.width;
+        const y = lm.y * canvasRef.current!.height;
+        ctx.beginPath();
+        ctx.arc(x, y, 4, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+      
+      // Draw tension indicator and gesture (one line per hand)
+      ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.9)`;
+      ctx.fillText(`${hand.handedness[0].toUpperCase()} ${Math.round((1-tension) * 100)}% | ${gesture}`, 10, 25 + handIndex * 20);
+    });
   };
 
   const clearCanvas = () => {
@@ -287,12 +323,34 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate }) => {
   };
 
   useEffect(() => {
-    initializeMediaPipe();
+    startSource(sourceConfig);
     return () => {
-      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      startIdRef.current++;
+      sourceRef.current?.stop();
+      sourceRef.current = null;
+      // Object URLs from file pickers are only needed while playing
+      if (sourceConfig.kind !== 'webcam' && sourceConfig.url.startsWith('blob:')) {
+        URL.revokeObjectURL(sourceConfig.url);
+      }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [sourceConfig]);
+
+  useEffect(() => {
+    classifyGestureRef.current = gestureModel ? createModelGestureResolver(gestureModel) : undefined;
+  }, [gestureModel]);
+
+  useEffect(() => {
+    inferenceRateRef.current = inferenceRate;
+    sourceRef.current?.setInferenceRate(inferenceRate);
+  }, [inferenceRate]);
+
+  // Calibration result message fades after a few seconds
+  useEffect(() => {
+    if (!calibrationMessage) return;
+    const timeout = setTimeout(() => setCalibrationMessage(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [calibrationMessage]);
 
   return (
     <div className="fixed top-4 right-4 z-50 flex flex-col items-end gap-2">
@@ -321,11 +379,79 @@ const HandTracker: React.FC<HandTrackerProps> = ({ onUpdate }) => {
           ref={canvasRef} 
           className="absolute inset-0 w-full h-full transform -scale-x-100" 
         />
+
+        {calibrationStep !== 'idle' && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/50 text-center pointer-events-none">
+            <span className="text-xs font-bold text-cyan-300 tracking-widest">
+              {calibrationStep === 'open' ? 'OPEN HAND WIDE' : 'MAKE A TIGHT FIST'}
+            </span>
+            <span className="text-[8px] text-gray-400 font-mono uppercase">
+              Step {calibrationStep === 'open' ? 1 : 2} of 2 • hold still
+            </span>
+          </div>
+        )}
       </div>
+
+      <div className="flex items-center gap-1">
+        {SOURCE_BUTTONS.map(({ kind, icon: Icon, label }) => (
+          <button
+            key={kind}
+            onClick={() => {
+              if (kind === 'webcam') setSourceConfig({ kind });
+              else (kind === 'video' ? videoFileInputRef : recordingFileInputRef).current?.click();
+            }}
+            className={`flex items-center px-1.5 py-0.5 rounded-full transition
+              ${sourceConfig.kind === kind ? 'bg-cyan-500/40 text-cyan-200' : 'bg-white/10 hover:bg-white/20 text-white'}
+            `}
+            title={label}
+          >
+            <Icon className="w-3 h-3" />
+          </button>
+        ))}
+        <input
+          ref={videoFileInputRef}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={e => { handleFileSelected('video', e.target.files?.[0]); e.target.value = ''; }}
+        />
+        <input
+          ref={recordingFileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => { handleFileSelected('recording', e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {!error && !loading && calibrationStep === 'idle' && (
+        <div className="flex items-center gap-1">
+          <button
+            onClick={startCalibration}
+            className="flex items-center gap-1 px-2 py-0.5 bg-white/10 hover:bg-white/20 text-white text-[9px] uppercase rounded-full transition"
+            title="Record your open hand and fist to tune tension"
+          >
+            <Crosshair className="w-3 h-3" /> {isCalibrated ? 'Recalibrate' : 'Calibrate'}
+          </button>
+          {isCalibrated && (
+            <button
+              onClick={resetCalibration}
+              className="flex items-center px-1.5 py-0.5 bg-white/10 hover:bg-white/20 text-white rounded-full transition"
+              title="Reset to default thresholds"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {calibrationMessage && (
+        <span className="text-[9px] text-gray-300 font-mono">{calibrationMessage}</span>
+      )}
       
       {error && (
         <button 
-          onClick={initializeMediaPipe}
+          onClick={() => startSource(sourceConfig)}
           className="flex items-center gap-2 px-3 py-1 bg-white/10 hover:bg-white/20 text-white text-xs rounded-full transition"
         >
           <RefreshCw className="w-3 h-3" /> Retry
@@ -1,118 +1,177 @@
 
 import React, { useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import { ParticleConfig, ShapeType, ParticleStyle, PARTICLE_COUNT, HandTrackingResult, TRAIL_LENGTH } from '../types';
-import { generateGeometry, generateAttributes } from '../utils/geometryFactory';
+import { ParticleConfig, ParticleStyle, PARTICLE_COUNT, ShapeType, HandTrackingResult, TRAIL_LENGTH, PARTICLE_BEHAVIORS, Vec3, TrailFade, TrailRender, MorphEasing } from '../types';
+import { generateGeometry, generateAttributes, generateLineAttributes, generateColors, generateColorAttributes } from '../utils/geometryFactory';
+import { ParticleActionSignal } from '../utils/appActions';
+import { behaviorFor } from '../utils/gestureBindings';
+import { getPrimaryHand } from '../utils/handAnalysis';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { pairNearestOrder, reorderTriples } from '../utils/morphPairing';
+import { mulberry32 } from '../utils/random';
+import { QualityTier, createQualityGovernor } from '../utils/qualityGovernor';
+import { Profiler, RenderStats, createGpuTimer, gpuName } from '../utils/profiler';
+import { PostProcessing, createPostProcessing } from '../utils/postProcessing';
+import { PALETTE_GLSL, PaletteTexture, colorDriverIndex, createPaletteTexture } from '../utils/palette';
+import { ParticleSimulation, createParticleSimulation, createSimulationUvs, HISTORY_LOOKUP_GLSL } from '../utils/particleSimulation';
 
 interface ParticleSystemProps {
   config: ParticleConfig;
   handData: HandTrackingResult;
   onFpsUpdate?: (fps: number) => void;
+  onQualityChange?: (tier: QualityTier) => void; // Adaptive quality tier, see utils/qualityGovernor.ts
+  particleAction?: ParticleActionSignal | null; // Spin / burst / snapshot triggered by gestures
+  profiler?: Profiler; // Receives frame, GPU and renderer.info stats
+  qualityOverride?: QualityTier | null; // Fixed tier in place of the governor (benchmarks)
 }
 
-const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFpsUpdate }) => {
+// Normalized image coordinates -> world space (-2 to 2 range), mirrored like the preview
+const toWorld = (target: THREE.Vector3, p: Vec3) => {
+  return target.set((p.x - 0.5) * 4, (0.5 - p.y) * 4, p.z || 0);
+};
+
+const attributeBytes = (geometry: THREE.BufferGeometry) => {
+  return Object.values(geometry.attributes).reduce((sum, attribute) => sum + (attribute as THREE.BufferAttribute).array.byteLength, 0);
+};
+
+const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFpsUpdate, onQualityChange, particleAction, profiler, qualityOverride = null }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const materialRef = useRef<THREE.ShaderMaterial | null>(null);
   const geometryRef = useRef<THREE.BufferGeometry | null>(null);
+  const pointsRef = useRef<THREE.Points | null>(null);
+  const linesRef = useRef<THREE.LineSegments | null>(null);
+  const lineMaterialRef = useRef<THREE.ShaderMaterial | null>(null);
+  const simulationRef = useRef<ParticleSimulation | null>(null);
+  const postProcessingRef = useRef<PostProcessing | null>(null);
+  const paletteRef = useRef<PaletteTexture | null>(null);
   
   // State refs for smoothing and logic
   const smoothedTensionRef = useRef(0);
   const prevTensionRef = useRef(0);
   const explosionRef = useRef(0);
+  const lastClapRef = useRef(-1);
+  const spinVelocityRef = useRef(0);
   const fpsRef = useRef(0);
   const frameCountRef = useRef(0);
-  const handDataRef = useRef<HandTrackingResult>({ isDetected: false, tension: 0, gesture: 'none' });
+  const handDataRef = useRef<HandTrackingResult>({ isDetected: false, tension: 0, gesture: 'none', hands: [] });
+  const configRef = useRef(config);
+  const shapeRef = useRef({ shape: config.shape, text: config.text, seed: config.seed }); // Shape the simulation currently targets
+  const snapshotRequestedRef = useRef(false);
+  const governorRef = useRef(createQualityGovernor());
+  const qualityOverrideRef = useRef(qualityOverride);
+  // Two-hand signals, smoothed like tension
+  const smoothedStretchRef = useRef(0);
+  const smoothedSplitRef = useRef(0);
+  const smoothedRotationRef = useRef(0);
+  // Primary palm orientation, smoothed; tilts the whole formation
+  const smoothedPalmRef = useRef({ roll: 0, pitch: 0, yaw: 0 });
 
   // Shader Code - OPTIMIZED FOR RTX 3050 + GESTURE SUPPORT
+  // Physics runs in utils/particleSimulation.ts; these only draw its position history
+  const trailShaderChunk = `
+    ${HISTORY_LOOKUP_GLSL}
+    ${PALETTE_GLSL}
+
+    uniform float uTrailLength;
+    uniform int uTrailFade;
+
+    // 1.0 at the particle, falling toward 0.0 at the end of the trail
+    float trailFade(float slot) {
+      float u = slot / max(uTrailLength, 1.0);
+      if (uTrailFade == 1) return (1.0 - u) * (1.0 - u);
+      if (uTrailFade == 2) return exp(-4.0 * u);
+      return 1.0 - u;
+    }
+
+    vec3 trailPaletteColor(vec3 pos, vec2 simUv, float slot) {
+      return paletteColor(pos, simUv, slot / max(uTrailLength - 1.0, 1.0));
+    }
+  `;
+
   const vertexShader = `
-    uniform float uTime;
-    uniform float uTension;
-    uniform float uExplosion;
-    uniform int uGesture;
-    uniform vec3 uGesturePos;
-    uniform vec3 uPeacePos1;
-    uniform vec3 uPeacePos2;
-    
-    attribute vec3 targetPos;
+    ${trailShaderChunk}
+
+    attribute vec2 simUv;
     attribute float trailIdx;
     attribute float pScale;
+    attribute vec3 pColor;
     
     varying float vTrailIdx;
+    varying float vFade;
     varying float vDepth;
-
-    float hash(float n) {
-      return fract(sin(n) * 43758.5453);
-    }
+    varying vec3 vColor;
+    varying vec3 vBaseColor;
 
     void main() {
       vTrailIdx = trailIdx;
-      
-      float lag = trailIdx * 0.08;
-      float effectiveTime = uTime - lag;
-      
-      // Minimal noise
-      float noiseVal = hash(targetPos.x + targetPos.y * 2.0 + effectiveTime * 0.1) * 0.04;
-      
-      // Very gentle breathing
-      float breath = sin(effectiveTime * 0.6) * 0.02;
-      float expansion = uTension * 1.8 + 0.3;
-      
-      // Explosion with distance amplification
-      float distFromCenter = length(targetPos);
-      float explode = uExplosion * 3.0 * (0.5 + distFromCenter * 2.0);
-      vec3 explodeDir = normalize(targetPos + vec3(0.001)) * explode;
-
-      vec3 pos = targetPos * (expansion + breath) + vec3(noiseVal) * 0.05 + explodeDir;
-
-      // GESTURE-BASED PHYSICS
-      if (uGesture == 1) {
-        // POINTING: swarm toward fingertip (more aggressive)
-        vec3 toFinger = uGesturePos - pos;
-        float dist = length(toFinger);
-        if (dist > 0.001) {
-          pos += normalize(toFinger) * 0.035;
-        }
-      }
-      else if (uGesture == 2) {
-        // PINCH: cluster tight at pinch position
-        vec3 toPinch = uGesturePos - pos;
-        pos = mix(pos, uGesturePos, 0.15);
-      }
-      else if (uGesture == 3) {
-        // PALM UP: strong upward force
-        pos.y += 0.05;
-      }
-      else if (uGesture == 4) {
-        // PALM DOWN: strong downward force
-        pos.y -= 0.05;
-      }
-      else if (uGesture == 5) {
-        // PEACE: attract to nearest peace center
-        float d1 = length(uPeacePos1 - pos);
-        float d2 = length(uPeacePos2 - pos);
-        if (d1 < d2) {
-          pos += normalize(uPeacePos1 - pos) * 0.025;
-        } else {
-          pos += normalize(uPeacePos2 - pos) * 0.025;
-        }
+      vFade = trailFade(trailIdx);
+      vColor = pColor;
+
+      // Samples beyond the configured trail length are hidden
+      if (trailIdx >= uTrailLength) {
+        gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+        gl_PointSize = 0.0;
+        return;
       }
 
+      vec3 pos = historyPosition(simUv, trailIdx);
+      vBaseColor = trailPaletteColor(pos, simUv, trailIdx);
+
       vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
       gl_Position = projectionMatrix * mvPosition;
 
       vDepth = -mvPosition.z;
-      float size = (100.0 / max(vDepth, 0.1)) * pScale * (1.0 - trailIdx * 0.2);
+      float size = (100.0 / max(vDepth, 0.1)) * pScale * mix(0.3, 1.0, vFade);
       gl_PointSize = max(size, 1.0);
     }
   `;
 
+  const lineVertexShader = `
+    ${trailShaderChunk}
+
+    attribute vec2 simUv;
+    attribute float trailIdx;
+    attribute vec3 pColor;
+
+    varying float vTrailIdx;
+    varying float vFade;
+    varying vec3 vColor;
+    varying vec3 vBaseColor;
+
+    void main() {
+      vTrailIdx = trailIdx;
+      vFade = trailFade(trailIdx);
+      vColor = pColor;
+      vec3 pos = historyPosition(simUv, trailIdx);
+      vBaseColor = trailPaletteColor(pos, simUv, trailIdx);
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
+    }
+  `;
+
+  const lineFragmentShader = `
+    uniform float uVertexColors;
+    uniform float uTrailLength;
+    varying float vTrailIdx;
+    varying float vFade;
+    varying vec3 vColor;
+    varying vec3 vBaseColor;
+
+    void main() {
+      if (vTrailIdx > uTrailLength - 1.0) discard;
+      gl_FragColor = vec4(mix(vBaseColor, vColor, uVertexColors), vFade * 0.6);
+    }
+  `;
+
   const fragmentShader = `
-    uniform vec3 uColor;
+    uniform float uVertexColors; // 1.0 = per-particle colours (image shapes)
     uniform int uStyle;
     varying float vTrailIdx;
+    varying float vFade;
+    varying vec3 vColor;
+    varying vec3 vBaseColor; // Solid colour or palette, see utils/palette.ts
     
     void main() {
       vec2 uv = gl_PointCoord - 0.5;
@@ -137,8 +196,8 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
         alpha = 1.0 - d * 2.0;
       }
 
-      alpha *= (1.0 - vTrailIdx * 0.2);
-      gl_FragColor = vec4(uColor, alpha);
+      alpha *= vFade;
+      gl_FragColor = vec4(mix(vBaseColor, vColor, uVertexColors), alpha);
     }
   `;
 
@@ -153,6 +212,60 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
     }
   };
 
+  const getMorphEasingInt = (easing: MorphEasing): number => {
+    switch(easing) {
+      case MorphEasing.SMOOTH: return 1;
+      case MorphEasing.BACK: return 2;
+      case MorphEasing.ELASTIC: return 3;
+      default: return 0;
+    }
+  };
+
+  const getTrailFadeInt = (fade: TrailFade): number => {
+    switch(fade) {
+      case TrailFade.QUADRATIC: return 1;
+      case TrailFade.EXPONENTIAL: return 2;
+      default: return 0;
+    }
+  };
+
+  const activeTier = () => qualityOverrideRef.current ?? governorRef.current.tier;
+
+  // Sprites always mark the particle itself; line mode draws the trail as segments
+  const applyTrail = (config: ParticleConfig) => {
+    const trailLength = Math.min(config.trailLength, activeTier().maxTrailLength);
+    const lineMode = config.trailRender === TrailRender.LINES;
+    if (linesRef.current) linesRef.current.visible = lineMode;
+    if (lineMaterialRef.current) lineMaterialRef.current.uniforms.uTrailLength.value = trailLength;
+    if (materialRef.current) materialRef.current.uniforms.uTrailLength.value = lineMode ? 1 : trailLength;
+  };
+
+  // Quality tier limits on top of the config; buffers keep PARTICLE_COUNT
+  // particles and the tier only changes how many are drawn
+  const applyQuality = (tier: QualityTier) => {
+    const particles = Math.round(PARTICLE_COUNT * tier.particleFraction);
+    geometryRef.current?.setDrawRange(0, particles * TRAIL_LENGTH);
+    linesRef.current?.geometry.setDrawRange(0, particles * (TRAIL_LENGTH - 1) * 2);
+    rendererRef.current?.setPixelRatio(Math.min(window.devicePixelRatio, tier.pixelRatio));
+    postProcessingRef.current?.resize();
+    postProcessingRef.current?.configure(configRef.current.postProcessing, tier.postEffects);
+    applyTrail(configRef.current);
+  };
+
+  // Per-particle colours for shapes that carry them; others use the palette
+  const applyColors = (colors: Float32Array | null) => {
+    const material = materialRef.current;
+    const pointGeometry = geometryRef.current;
+    const lineGeometry = linesRef.current?.geometry;
+    if (!material || !pointGeometry || !lineGeometry) return;
+
+    material.uniforms.uVertexColors.value = colors ? 1 : 0;
+    if (!colors) return;
+    const { pointColors, lineColors } = generateColorAttributes(colors, PARTICLE_COUNT);
+    (pointGeometry.attributes.pColor as THREE.BufferAttribute).copyArray(pointColors).needsUpdate = true;
+    (lineGeometry.attributes.pColor as THREE.BufferAttribute).copyArray(lineColors).needsUpdate = true;
+  };
+
   // Initialization
   useEffect(() => {
     if (!mountRef.current) return;
@@ -175,25 +288,45 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
       powerPreference: 'high-performance'
     });
     renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5)); // Capped at 1.5 for better performance
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, activeTier().pixelRatio)); // Capped at 1.5 for better performance
     renderer.domElement.style.position = 'absolute';
     renderer.domElement.style.top = '0';
     renderer.domElement.style.left = '0';
     mountRef.current.appendChild(renderer.domElement);
     rendererRef.current = renderer;
 
+    // Bloom, afterimage and other screen effects; renders directly while all are off
+    const postProcessing = createPostProcessing(renderer, scene, camera);
+    postProcessingRef.current = postProcessing;
+
+    // Target Positions (The shape) drive the GPU simulation
+    const simulation = createParticleSimulation(renderer, PARTICLE_COUNT, generateGeometry(config.shape, PARTICLE_COUNT, { text: config.text }, mulberry32(config.seed)));
+    simulationRef.current = simulation;
+
+    // Gradient the palette drivers sample
+    const palette = createPaletteTexture(config.palette.stops);
+    paletteRef.current = palette;
+
+    // Shared by the point and line materials
+    const trailUniforms = {
+      uColor: { value: new THREE.Color(config.color) },
+      uPalette: { value: palette.texture },
+      uColorDriver: { value: colorDriverIndex(config.palette.driver) },
+      uVelocity: { value: simulation.velocityTexture }, // Swapped in every frame
+      uPaletteTime: { value: 0 },
+      uHandTension: { value: 0 },
+      uVertexColors: { value: 0 },
+      uHistory: { value: simulation.historyTexture }, // Swapped in every frame
+      uSimSize: { value: simulation.size },
+      uTrailFade: { value: getTrailFadeInt(config.trailFade) },
+    };
+
     // Material must be created BEFORE geometry
     const material = new THREE.ShaderMaterial({
       uniforms: {
-        uTime: { value: 0 },
-        uColor: { value: new THREE.Color(config.color) },
-        uTension: { value: 0.5 },
-        uExplosion: { value: 0.0 },
+        ...trailUniforms,
         uStyle: { value: 0 },
-        uGesture: { value: 0 }, // 0=none, 1=point, 2=pinch, 3=palm_up, 4=palm_down, 5=peace
-        uGesturePos: { value: new THREE.Vector3(0, 0, 0) },
-        uPeacePos1: { value: new THREE.Vector3(0, 0, 0) },
-        uPeacePos2: { value: new THREE.Vector3(0, 0, 0) },
+        uTrailLength: { value: config.trailLength },
       },
       vertexShader,
       fragmentShader,
@@ -203,34 +336,81 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
     });
     materialRef.current = material;
 
+    const lineMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        ...trailUniforms,
+        uTrailLength: { value: config.trailLength },
+      },
+      vertexShader: lineVertexShader,
+      fragmentShader: lineFragmentShader,
+      transparent: true,
+      depthWrite: false,
+      blending: THREE.AdditiveBlending,
+    });
+    lineMaterialRef.current = lineMaterial;
+
     // Geometry & Material
-    const { trailIndices, scales } = generateAttributes(PARTICLE_COUNT);
+    const { trailIndices, scales } = generateAttributes(PARTICLE_COUNT, mulberry32(config.seed));
     const geometry = new THREE.BufferGeometry();
     
-    // Initial dummy positions
+    // Initial dummy positions (sets the vertex count; real positions come from the simulation)
     geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(PARTICLE_COUNT * TRAIL_LENGTH * 3), 3));
+    geometry.setAttribute('simUv', new THREE.BufferAttribute(createSimulationUvs(PARTICLE_COUNT), 2));
     geometry.setAttribute('trailIdx', new THREE.BufferAttribute(trailIndices, 1));
     geometry.setAttribute('pScale', new THREE.BufferAttribute(scales, 1));
-    
-    // Target Positions (The shape)
-    const initialPos = generateGeometry(config.shape, PARTICLE_COUNT);
-    geometry.setAttribute('targetPos', new THREE.BufferAttribute(initialPos, 3));
+    geometry.setAttribute('pColor', new THREE.BufferAttribute(new Float32Array(PARTICLE_COUNT * TRAIL_LENGTH * 3), 3));
     
     geometryRef.current = geometry;
 
+    // Line trails: a segment between each pair of consecutive history samples
+    const lineGeometry = new THREE.BufferGeometry();
+    const lineVertices = PARTICLE_COUNT * (TRAIL_LENGTH - 1) * 2;
+    lineGeometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(lineVertices * 3), 3));
+    lineGeometry.setAttribute('simUv', new THREE.BufferAttribute(createSimulationUvs(PARTICLE_COUNT, (TRAIL_LENGTH - 1) * 2), 2));
+    lineGeometry.setAttribute('trailIdx', new THREE.BufferAttribute(generateLineAttributes(PARTICLE_COUNT).trailIndices, 1));
+    lineGeometry.setAttribute('pColor', new THREE.BufferAttribute(new Float32Array(lineVertices * 3), 3));
+
     const points = new THREE.Points(geometry, material);
     points.frustumCulled = false;
-    scene.add(points);
+    const lines = new THREE.LineSegments(lineGeometry, lineMaterial);
+    lines.frustumCulled = false;
+    pointsRef.current = points;
+    linesRef.current = lines;
+    applyQuality(activeTier());
+    applyColors(generateColors(config.shape, PARTICLE_COUNT));
+    // Palm orientation tilts this group; the points keep their own spin inside it
+    const tiltGroup = new THREE.Group();
+    tiltGroup.add(points, lines);
+    scene.add(tiltGroup);
+
+    // Profiling: draw calls are summed over the simulation passes and the
+    // scene, so renderer.info is reset once per frame instead of per render
+    const gl = renderer.getContext() as WebGL2RenderingContext;
+    const gpuTimer = profiler ? createGpuTimer(gl) : null;
+    const renderStats: RenderStats = {
+      drawCalls: 0, triangles: 0, points: 0, lines: 0, geometries: 0, textures: 0,
+      bufferBytes: attributeBytes(geometry) + attributeBytes(lineGeometry),
+      textureBytes: simulation.textureBytes,
+    };
+    if (profiler) {
+      renderer.info.autoReset = false;
+      profiler.setGpuName(gpuName(gl));
+    }
 
     // Animation Loop
     const clock = new THREE.Clock();
     let lastFpsTime = 0;
+    let lastFrameTime = 0;
     let framesSinceLastFps = 0;
+    let frameId = 0;
     
     const animate = () => {
-      requestAnimationFrame(animate);
+      frameId = requestAnimationFrame(animate);
+      const frameStart = performance.now();
       
       const time = clock.getElapsedTime();
+      const delta = time - lastFrameTime;
+      lastFrameTime = time;
       
       // FPS calculation (less frequent for better performance)
       framesSinceLastFps++;
@@ -242,78 +422,97 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
           onFpsUpdate(fpsRef.current);
         }
       }
+
+      // Adaptive quality from measured frame times
+      const governor = governorRef.current;
+      if (!qualityOverrideRef.current && governor.sample(time, delta)) {
+        applyQuality(governor.tier);
+        onQualityChange?.(governor.tier);
+      }
       
-      if (materialRef.current) {
-        materialRef.current.uniforms.uTime.value = time;
-        
-        // Faster decay for smoother explosion recovery
-        if (explosionRef.current > 0.01) {
-          explosionRef.current *= 0.85;
-          materialRef.current.uniforms.uExplosion.value = explosionRef.current;
-        } else if (explosionRef.current > 0) {
-          explosionRef.current = 0;
-          materialRef.current.uniforms.uExplosion.value = 0;
-        }
+      const uniforms = simulation.uniforms;
+
+      // Faster decay for smoother explosion recovery (negative = implosion)
+      if (Math.abs(explosionRef.current) > 0.01) {
+        explosionRef.current *= 0.85;
+        uniforms.uExplosion.value = explosionRef.current;
+      } else if (explosionRef.current !== 0) {
+        explosionRef.current = 0;
+        uniforms.uExplosion.value = 0;
+      }
 
-        // Apply smoothed tension
-        materialRef.current.uniforms.uTension.value = smoothedTensionRef.current;
-
-        // Update gesture uniforms
-        const gestureMap: { [key: string]: number } = {
-          'none': 0,
-          'point': 1,
-          'pinch': 2,
-          'palm_up': 3,
-          'palm_down': 4,
-          'peace': 5,
-        };
-
-        materialRef.current.uniforms.uGesture.value = gestureMap[handDataRef.current.gesture] || 0;
-
-        // Convert normalized coordinates to 3D world space (-2 to 2 range)
-        if (handDataRef.current.fingerTip) {
-          const screenPos = handDataRef.current.fingerTip;
-          materialRef.current.uniforms.uGesturePos.value.set(
-            (screenPos.x - 0.5) * 4,
-            (0.5 - screenPos.y) * 4,
-            screenPos.z || 0
-          );
-        }
+      // Apply smoothed tension
+      uniforms.uTension.value = smoothedTensionRef.current;
 
-        if (handDataRef.current.pinchPosition) {
-          const screenPos = handDataRef.current.pinchPosition;
-          materialRef.current.uniforms.uGesturePos.value.set(
-            (screenPos.x - 0.5) * 4,
-            (0.5 - screenPos.y) * 4,
-            screenPos.z || 0
-          );
-        }
+      // Apply smoothed two-hand signals
+      uniforms.uStretch.value = smoothedStretchRef.current;
+      uniforms.uSplit.value = smoothedSplitRef.current;
 
-        if (handDataRef.current.peaceOrbit1) {
-          const screenPos = handDataRef.current.peaceOrbit1;
-          materialRef.current.uniforms.uPeacePos1.value.set(
-            (screenPos.x - 0.5) * 4,
-            (0.5 - screenPos.y) * 4,
-            screenPos.z || 0
-          );
-        }
+      // Behaviour bound to the current gesture, anchored at the most specific point available
+      const hand = handDataRef.current;
+      const behavior = behaviorFor(configRef.current.gestureBindings, hand.gesture);
+      uniforms.uBehavior.value = PARTICLE_BEHAVIORS.indexOf(behavior);
 
-        if (handDataRef.current.peaceOrbit2) {
-          const screenPos = handDataRef.current.peaceOrbit2;
-          materialRef.current.uniforms.uPeacePos2.value.set(
-            (screenPos.x - 0.5) * 4,
-            (0.5 - screenPos.y) * 4,
-            screenPos.z || 0
-          );
-        }
+      const anchor = hand.fingerTip ?? hand.pinchPosition ?? getPrimaryHand(hand.hands)?.palmCenter;
+      if (anchor) toWorld(uniforms.uAnchorPos.value, anchor);
+
+      // Peace sign orbits its two fingertips; other gestures orbit either side of the anchor
+      if (hand.peaceOrbit1 && hand.peaceOrbit2) {
+        toWorld(uniforms.uOrbitPos1.value, hand.peaceOrbit1);
+        toWorld(uniforms.uOrbitPos2.value, hand.peaceOrbit2);
+      } else {
+        uniforms.uOrbitPos1.value.copy(uniforms.uAnchorPos.value).x -= 0.8;
+        uniforms.uOrbitPos2.value.copy(uniforms.uAnchorPos.value).x += 0.8;
       }
 
+      // The simulation runs in the points' local space, which spins and tilts
+      points.updateMatrixWorld();
+      points.worldToLocal(uniforms.uAnchorPos.value);
+      points.worldToLocal(uniforms.uOrbitPos1.value);
+      points.worldToLocal(uniforms.uOrbitPos2.value);
+
+      renderer.info.reset();
+      gpuTimer?.begin();
+      simulation.step(time, delta);
+      trailUniforms.uHistory.value = simulation.historyTexture;
+      trailUniforms.uVelocity.value = simulation.velocityTexture;
+      trailUniforms.uPaletteTime.value = (time * configRef.current.palette.cycleRate) % 1;
+      trailUniforms.uHandTension.value = 1 - smoothedTensionRef.current;
+
       // Ultra-smooth, minimal rotation for maximum stability
-      points.rotation.y += 0.0005;
-      points.rotation.z = Math.sin(time * 0.12) * 0.015;
+      points.rotation.y += 0.0005 + spinVelocityRef.current;
+      spinVelocityRef.current *= 0.96; // Spin impulses coast to a stop
+      points.rotation.z = Math.sin(time * 0.12) * 0.015 + smoothedRotationRef.current;
       points.position.set(0, 0, 0);
+      lines.rotation.copy(points.rotation);
+
+      // Follow the palm: tipping it back leans the top away, rolling it rolls the shape
+      const palm = smoothedPalmRef.current;
+      tiltGroup.rotation.set(-palm.pitch * 0.4, palm.yaw * 0.4, palm.roll * 0.5);
+
+      postProcessing.render(delta);
+      gpuTimer?.end();
 
-      renderer.render(scene, camera);
+      // Read the canvas back right after rendering, before the buffer is cleared
+      if (snapshotRequestedRef.current) {
+        snapshotRequestedRef.current = false;
+        renderer.domElement.toBlob(blob => {
+          if (blob) downloadBlob(blob, `snapshot-${fileTimestamp()}.png`);
+        }, 'image/png');
+      }
+
+      if (profiler) {
+        gpuTimer?.poll().forEach(profiler.recordGpuTime);
+        const { render, memory } = renderer.info;
+        renderStats.drawCalls = render.calls;
+        renderStats.triangles = render.triangles;
+        renderStats.points = render.points;
+        renderStats.lines = render.lines;
+        renderStats.geometries = memory.geometries;
+        renderStats.textures = memory.textures;
+        profiler.recordRender(renderStats);
+        profiler.recordFrame(frameStart, delta * 1000, performance.now() - frameStart);
+      }
     };
     animate();
 
@@ -323,6 +522,7 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
         cameraRef.current.aspect = window.innerWidth / window.innerHeight;
         cameraRef.current.updateProjectionMatrix();
         rendererRef.current.setSize(window.innerWidth, window.innerHeight);
+        postProcessingRef.current?.resize();
       }
     };
     window.addEventListener('resize', handleResize);
@@ -332,8 +532,18 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
       if (mountRef.current && rendererRef.current) {
         mountRef.current.removeChild(rendererRef.current.domElement);
       }
+      cancelAnimationFrame(frameId);
+      gpuTimer?.dispose();
+      postProcessing.dispose();
+      postProcessingRef.current = null;
+      simulation.dispose();
+      simulationRef.current = null;
       geometry.dispose();
       material.dispose();
+      lineGeometry.dispose();
+      lineMaterial.dispose();
+      palette.dispose();
+      paletteRef.current = null;
       renderer.dispose();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -341,21 +551,87 @@ const ParticleSystem: React.FC<ParticleSystemProps> = ({ config, handData, onFps
 
   // Handle Updates
   useEffect(() => {
+    configRef.current = config;
     if (materialRef.current) {
       materialRef.current.uniforms.uColor.value.set(config.color);
+      materialRef.current.uniforms.uColorDriver.value = colorDriverIndex(config.palette.driver);
       materialRef.current.uniforms.uStyle.value = getStyleInt(config.style);
+      materialRef.current.uniforms.uTrailFade.value = getTrailFadeInt(config.trailFade);
     }
-    
-    // Update Geometry when shape changes
-    if (geometryRef.current) {
-      const newPos = generateGeometry(config.shape, PARTICLE_COUNT);
-      geometryRef.current.setAttribute('targetPos', new THREE.BufferAttribute(newPos, 3));
-      geometryRef.current.attributes.targetPos.needsUpdate = true;
-    }
+    paletteRef.current?.update(config.palette.stops);
+    applyTrail(config);
+    postProcessingRef.current?.configure(config.postProcessing, activeTier().postEffects);
+    simulationRef.current?.setMorphOptions({
+      duration: config.morphDuration,
+      easing: getMorphEasingInt(config.morphEasing),
+      stagger: config.morphStagger,
+    });
   }, [config]);
 
+  useEffect(() => {
+    qualityOverrideRef.current = qualityOverride;
+    applyQuality(activeTier());
+  }, [qualityOverride]);
+
+  // Morph to the new shape, each particle paired with a nearby point of it.
+  // Text edits only matter while the text shape is showing.
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    const current = shapeRef.current;
+    if (!simulation) return;
+    if (
+      current.shape === config.shape &&
+      current.seed === config.seed &&
+      (config.shape !== ShapeType.TEXT || current.text === config.text)
+    ) return;
+    shapeRef.current = { shape: config.shape, text: config.text, seed: config.seed };
+    const targets = generateGeometry(config.shape, PARTICLE_COUNT, { text: config.text }, mulberry32(config.seed));
+    const colors = generateColors(config.shape, PARTICLE_COUNT);
+    const order = pairNearestOrder(simulation.targets, targets);
+    simulation.morphTo(reorderTriples(targets, order));
+    applyColors(colors && reorderTriples(colors, order));
+  }, [config.shape, config.text, config.seed]);
+
+  // Motion-gesture actions that act on the particles directly
+  useEffect(() => {
+    if (!particleAction) return;
+    const { action, strength } = particleAction;
+    if (action === 'spin_cw' || action === 'spin_ccw') {
+      spinVelocityRef.current += (action === 'spin_cw' ? 1 : -1) * (0.03 + strength * 0.05);
+    } else if (action === 'burst') {
+      explosionRef.current = Math.max(explosionRef.current, 1.0 + strength * 1.5);
+    } else if (action === 'implode') {
+      explosionRef.current = -(0.3 + strength * 0.3);
+    } else if (action === 'snapshot') {
+      snapshotRequestedRef.current = true;
+    }
+  }, [particleAction]);
+
   // Handle Hand Logic Frame-by-Frame (via Ref interaction)
   useEffect(() => {
+    // CLAP: burst scaled by impact speed (detector already applies a cooldown)
+    if (handData.clap && handData.clap.timestamp !== lastClapRef.current) {
+      lastClapRef.current = handData.clap.timestamp;
+      explosionRef.current = Math.max(explosionRef.current, 0.8 + handData.clap.intensity * 2.2);
+    }
+
+    // Two-hand signals ease back to rest when a hand leaves the frame
+    const twoHand = handData.twoHand;
+    const targetStretch = twoHand ? twoHand.stretch : 0;
+    // Split only kicks in over the upper part of the stretch range
+    const targetSplit = twoHand ? Math.max(0, (twoHand.stretch - 0.6) / 0.4) * 1.5 : 0;
+    const targetRotation = twoHand ? twoHand.relativeRotation : 0;
+    smoothedStretchRef.current += (targetStretch - smoothedStretchRef.current) * 0.1;
+    smoothedSplitRef.current += (targetSplit - smoothedSplitRef.current) * 0.1;
+    smoothedRotationRef.current += (targetRotation - smoothedRotationRef.current) * 0.1;
+
+    // Palm tilt also eases back to level when the hand is lost
+    const orientation = handData.isDetected ? handData.palmOrientation : undefined;
+    const palm = smoothedPalmRef.current;
+    palm.roll += ((orientation?.roll ?? 0) - palm.roll) * 0.1;
+    palm.pitch += ((orientation?.pitch ?? 0) - palm.pitch) * 0.1;
+    palm.yaw += ((orientation?.yaw ?? 0) - palm.yaw) * 0.1;
+
     if (!handData.isDetected) return;
     
     // Update handData ref for use in animation loop
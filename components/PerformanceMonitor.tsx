@@ -1,59 +1,181 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Activity, Zap, Gauge } from 'lucide-react';
-
-interface PerformanceMonitorProps {
-  fpsRef: React.MutableRefObject<number>;
-}
-
-const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({ fpsRef }) => {
-  const [fps, setFps] = useState(0);
-  const [color, setColor] = useState('text-green-400');
-  const [bgColor, setBgColor] = useState('bg-green-500/20');
-  const [status, setStatus] = useState('OPTIMAL');
-  const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  useEffect(() => {
-    updateIntervalRef.current = setInterval(() => {
-      setFps(Math.round(fpsRef.current));
-      
-      // Color based on FPS
-      if (fpsRef.current >= 55) {
-        setColor('text-green-400');
-        setBgColor('bg-green-500/20');
-        setStatus('OPTIMAL');
-      } else if (fpsRef.current >= 40) {
-        setColor('text-yellow-400');
-        setBgColor('bg-yellow-500/20');
-        setStatus('GOOD');
-      } else {
-        setColor('text-red-400');
-        setBgColor('bg-red-500/20');
-        setStatus('CAUTION');
-      }
-    }, 500);
-
-    return () => {
-      if (updateIntervalRef.current) {
-        clearInterval(updateIntervalRef.current);
-      }
-    };
-  }, [fpsRef]);
-
-  return (
-    <div>
-      <div className={`${bgColor} backdrop-blur-xl border border-white/20 rounded-lg px-4 py-2 flex items-center gap-2 
-        shadow-lg hover:border-white/30 transition-colors duration-300`}>
-        
-        <Gauge className={`w-4 h-4 ${color}`} />
-        <div className="flex flex-col">
-          <span className={`font-mono text-sm font-bold ${color}`}>
-            {fps} FPS
-          </span>
-          <span className="text-[7px] text-gray-500 font-mono uppercase tracking-wider">{status}</span>
-        </div>
-      </div>
-    </div>
-  );
-};
-
-export default PerformanceMonitor;
+import React, { useEffect, useRef, useState } from 'react';
+import { Gauge, ChevronDown, ChevronUp, Download, RotateCcw } from 'lucide-react';
+import { PARTICLE_COUNT } from '../types';
+import { QUALITY_TIERS, QualityTier } from '../utils/qualityGovernor';
+import { Profiler, ProfilerSnapshot, TimingStats } from '../utils/profiler';
+import { downloadJson, fileTimestamp } from '../utils/download';
+
+interface PerformanceMonitorProps {
+  fpsRef: React.MutableRefObject<number>;
+  qualityTier?: QualityTier; // Current adaptive quality tier
+  profiler?: Profiler; // Enables the detailed panel
+}
+
+// Frame-time graph: 0 to GRAPH_MAX_MS, with the 60 and 30 FPS budgets marked
+const GRAPH_WIDTH = 200;
+const GRAPH_HEIGHT = 48;
+const GRAPH_MAX_MS = 50;
+
+const ms = (value: number) => value.toFixed(1);
+const percentiles = (stats: TimingStats | null) => stats ? `${ms(stats.p50)} / ${ms(stats.p95)} / ${ms(stats.p99)}` : 'n/a';
+const megabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const drawFrameGraph = (canvas: HTMLCanvasElement, frameTimes: Float64Array, p95: number) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const y = (value: number) => GRAPH_HEIGHT - (Math.min(value, GRAPH_MAX_MS) / GRAPH_MAX_MS) * GRAPH_HEIGHT;
+
+  ctx.clearRect(0, 0, GRAPH_WIDTH, GRAPH_HEIGHT);
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  [1000 / 60, 1000 / 30].forEach(budget => {
+    ctx.beginPath();
+    ctx.moveTo(0, y(budget));
+    ctx.lineTo(GRAPH_WIDTH, y(budget));
+    ctx.stroke();
+  });
+
+  ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)';
+  ctx.setLineDash([3, 3]);
+  ctx.beginPath();
+  ctx.moveTo(0, y(p95));
+  ctx.lineTo(GRAPH_WIDTH, y(p95));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Newest frame on the right
+  ctx.strokeStyle = 'rgba(34, 211, 238, 0.9)';
+  ctx.beginPath();
+  const step = GRAPH_WIDTH / Math.max(frameTimes.length - 1, 1);
+  const offset = GRAPH_WIDTH - step * (frameTimes.length - 1);
+  frameTimes.forEach((value, i) => {
+    if (i === 0) ctx.moveTo(offset, y(value));
+    else ctx.lineTo(offset + i * step, y(value));
+  });
+  ctx.stroke();
+};
+
+const PerformanceMonitor: React.FC<PerformanceMonitorProps> = ({ fpsRef, qualityTier = QUALITY_TIERS[0], profiler }) => {
+  const [fps, setFps] = useState(0);
+  const [color, setColor] = useState('text-green-400');
+  const [bgColor, setBgColor] = useState('bg-green-500/20');
+  const [status, setStatus] = useState('OPTIMAL');
+  const [expanded, setExpanded] = useState(false);
+  const [stats, setStats] = useState<ProfilerSnapshot | null>(null);
+  const graphRef = useRef<HTMLCanvasElement>(null);
+  const updateIntervalRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    updateIntervalRef.current = setInterval(() => {
+      setFps(Math.round(fpsRef.current));
+
+      // Color based on FPS
+      if (fpsRef.current >= 55) {
+        setColor('text-green-400');
+        setBgColor('bg-green-500/20');
+        setStatus('OPTIMAL');
+      } else if (fpsRef.current >= 40) {
+        setColor('text-yellow-400');
+        setBgColor('bg-yellow-500/20');
+        setStatus('GOOD');
+      } else {
+        setColor('text-red-400');
+        setBgColor('bg-red-500/20');
+        setStatus('CAUTION');
+      }
+
+      // Percentiles are only computed while the panel is open
+      if (profiler && expanded) {
+        const snapshot = profiler.snapshot();
+        setStats(snapshot);
+        if (graphRef.current) drawFrameGraph(graphRef.current, profiler.frameHistory(), snapshot.frameTime?.p95 ?? 0);
+      }
+    }, 500);
+
+    return () => {
+      if (updateIntervalRef.current) {
+        clearInterval(updateIntervalRef.current);
+      }
+    };
+  }, [fpsRef, profiler, expanded]);
+
+  const exportSession = () => {
+    if (profiler) downloadJson(profiler.exportSession(), `profile-${fileTimestamp()}.json`);
+  };
+
+  const resetSession = () => {
+    profiler?.resetSession();
+    setStats(null);
+  };
+
+  const rows: [string, string][] = stats ? [
+    ['Frame p50/95/99', `${percentiles(stats.frameTime)} ms`],
+    ['CPU p50/95/99', `${percentiles(stats.cpuTime)} ms`],
+    ['GPU p50/95/99', stats.gpuTime ? `${percentiles(stats.gpuTime)} ms` : 'unsupported'],
+    ['Tracking', `${Math.round(stats.trackingRate)} Hz`],
+    ['Detect p50/95/99', stats.detectionLatency ? `${percentiles(stats.detectionLatency)} ms` : 'n/a'],
+    ['Draw calls', `${stats.render.drawCalls}`],
+    ['Points / lines', `${stats.render.points} / ${stats.render.lines}`],
+    ['Geometries / textures', `${stats.render.geometries} / ${stats.render.textures}`],
+    ['Buffers / sim textures', `${megabytes(stats.render.bufferBytes)} / ${megabytes(stats.render.textureBytes)}`],
+  ] : [];
+
+  return (
+    <div className="relative">
+      <div
+        className={`${bgColor} backdrop-blur-xl border border-white/20 rounded-lg px-4 py-2 flex items-center gap-2
+        shadow-lg hover:border-white/30 transition-colors duration-300 ${profiler ? 'cursor-pointer' : ''}`}
+        onClick={() => profiler && setExpanded(!expanded)}
+        title={profiler ? 'Show profiler' : undefined}
+      >
+
+        <Gauge className={`w-4 h-4 ${color}`} />
+        <div className="flex flex-col">
+          <span className={`font-mono text-sm font-bold ${color}`}>
+            {fps} FPS
+          </span>
+          <span className="text-[7px] text-gray-500 font-mono uppercase tracking-wider">{status}</span>
+          <span
+            className="text-[7px] text-gray-400 font-mono uppercase tracking-wider"
+            title={`${qualityTier.pixelRatio}x pixel ratio, trails up to ${qualityTier.maxTrailLength}, ${qualityTier.inferenceRate || 'max'} tracking fps`}
+          >
+            {qualityTier.name} · {Math.round(PARTICLE_COUNT * qualityTier.particleFraction)}p
+          </span>
+        </div>
+        {profiler && (expanded ? <ChevronUp className="w-3 h-3 text-gray-500" /> : <ChevronDown className="w-3 h-3 text-gray-500" />)}
+      </div>
+
+      {/* Opens to the left, clear of the camera preview */}
+      {profiler && expanded && (
+        <div className="absolute top-0 right-full mr-2 w-56 bg-black/75 backdrop-blur-xl border border-white/20 rounded-xl p-3 shadow-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xs font-bold text-cyan-400 uppercase tracking-wider">Profiler</h2>
+            <span className="flex items-center gap-1">
+              <button onClick={resetSession} className="text-gray-500 hover:text-cyan-300" title="Start a new session">
+                <RotateCcw className="w-3 h-3" />
+              </button>
+              <button onClick={exportSession} className="text-gray-500 hover:text-cyan-300" title="Download the session as JSON">
+                <Download className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+
+          <canvas ref={graphRef} width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className="w-full bg-white/5 rounded" />
+          <p className="text-[7px] text-gray-500 font-mono mb-1">
+            frame time, 0-{GRAPH_MAX_MS} ms · lines at 60/30 FPS · dashed p95
+          </p>
+
+          {rows.map(([label, value]) => (
+            <div key={label} className="flex items-center justify-between text-[9px] font-mono">
+              <span className="text-gray-500">{label}</span>
+              <span className="text-gray-200">{value}</span>
+            </div>
+          ))}
+          {!stats && <p className="text-[8px] text-gray-500 font-mono">Collecting...</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformanceMonitor;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HandTrackingResult } from '../types';
+import {
+  SessionRecorder, SessionReplayer, SessionRecording,
+  createSessionReplayer, parseSessionRecording,
+} from '../utils/sessionRecorder';
+import { downloadJson, fileTimestamp } from '../utils/download';
+import { Circle, Square, Play, Pause, Repeat, FolderOpen, Download, X } from 'lucide-react';
+
+interface SessionPanelProps {
+  recorder: SessionRecorder;
+  onReplayUpdate: (result: HandTrackingResult) => void;
+  onReplayingChange: (replaying: boolean) => void; // Live tracking is ignored while true
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2];
+
+const formatTime = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ recorder, onReplayUpdate, onReplayingChange }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [lastRecording, setLastRecording] = useState<SessionRecording | null>(null);
+  const [replay, setReplay] = useState<SessionRecording | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const replayerRef = useRef<SessionReplayer | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Frame counter while recording
+  useEffect(() => {
+    if (!isRecording) return;
+    const interval = setInterval(() => setRecordedFrames(recorder.frameCount), 250);
+    return () => clearInterval(interval);
+  }, [isRecording, recorder]);
+
+  // (Re)create the replayer whenever a recording is loaded
+  useEffect(() => {
+    if (!replay) return;
+    const replayer = createSessionReplayer(replay, onReplayUpdate, {
+      speed,
+      loop,
+      onTick: setPosition,
+      onEnd: () => setIsPlaying(false),
+    });
+    replayerRef.current = replayer;
+    onReplayingChange(true);
+    replayer.play();
+    setIsPlaying(true);
+
+    return () => {
+      replayer.pause();
+      replayerRef.current = null;
+      onReplayingChange(false);
+    };
+    // Speed and loop are pushed to the live replayer below
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [replay, onReplayUpdate, onReplayingChange]);
+
+  useEffect(() => {
+    replayerRef.current?.setSpeed(speed);
+  }, [speed]);
+
+  useEffect(() => {
+    replayerRef.current?.setLoop(loop);
+  }, [loop]);
+
+  const toggleRecording = () => {
+    if (isRecording) {
+      setLastRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setRecordedFrames(0);
+      setIsRecording(true);
+    }
+  };
+
+  const togglePlayback = () => {
+    const replayer = replayerRef.current;
+    if (!replayer) return;
+    if (replayer.isPlaying) replayer.pause();
+    else replayer.play();
+    setIsPlaying(replayer.isPlaying);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setError(null);
+      setReplay(parseSessionRecording(JSON.parse(await file.text())));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read session file.');
+    }
+  };
+
+  const buttonClass = 'flex items-center justify-center gap-1 px-2 py-1 rounded text-[8px] font-semibold uppercase transition-all bg-white/5 border border-white/10 text-gray-400 hover:text-cyan-300';
+
+  return (
+    <div className="w-56 bg-black/75 backdrop-blur-xl border border-white/20 rounded-xl p-3 shadow-lg hover:border-white/30 transition-colors duration-300">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xs font-bold text-cyan-400 uppercase tracking-wider">Session</h2>
+        {isRecording && (
+          <span className="text-[8px] font-mono text-red-400 animate-pulse">REC {recordedFrames}f</span>
+        )}
+      </div>
+
+      {!replay && (
+        <div className="grid grid-cols-3 gap-1">
+          <button
+            onClick={toggleRecording}
+            className={`${buttonClass} ${isRecording ? 'bg-red-500/40 border-red-400/60 text-red-200' : ''}`}
+            title={isRecording ? 'Stop recording' : 'Record landmarks and results'}
+          >
+            {isRecording ? <Square className="w-2.5 h-2.5" /> : <Circle className="w-2.5 h-2.5" />}
+            {isRecording ? 'Stop' : 'Rec'}
+          </button>
+          <button
+            onClick={() => lastRecording && downloadJson(lastRecording, `session-${fileTimestamp()}.json`)}
+            disabled={!lastRecording || isRecording}
+            className={`${buttonClass} disabled:opacity-30`}
+            title="Download the last recording"
+          >
+            <Download className="w-2.5 h-2.5" /> Save
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isRecording}
+            className={`${buttonClass} disabled:opacity-30`}
+            title="Replay a saved session"
+          >
+            <FolderOpen className="w-2.5 h-2.5" /> Load
+          </button>
+        </div>
+      )}
+
+      {replay && (
+        <div className="space-y-1">
+          <input
+            type="range"
+            min={0}
+            max={replay.durationMs}
+            step={10}
+            value={position}
+            onChange={e => replayerRef.current?.seek(Number(e.target.value))}
+            className="w-full h-1 accent-cyan-400"
+          />
+          <div className="flex items-center justify-between font-mono text-[8px] text-gray-500">
+            <span>{formatTime(position)}</span>
+            <span>{formatTime(replay.durationMs)}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={togglePlayback} className={buttonClass} title={isPlaying ? 'Pause' : 'Play'}>
+              {isPlaying ? <Pause className="w-2.5 h-2.5" /> : <Play className="w-2.5 h-2.5" />}
+            </button>
+            {SPEEDS.map(s => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`${buttonClass} ${speed === s ? 'bg-cyan-500/40 border-cyan-400/60 text-cyan-200' : ''}`}
+              >
+                {s}x
+              </button>
+            ))}
+            <button
+              onClick={() => setLoop(!loop)}
+              className={`${buttonClass} ${loop ? 'bg-cyan-500/40 border-cyan-400/60 text-cyan-200' : ''}`}
+              title="Loop"
+            >
+              <Repeat className="w-2.5 h-2.5" />
+            </button>
+            <button onClick={() => setReplay(null)} className={buttonClass} title="Back to live tracking">
+              <X className="w-2.5 h-2.5" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-[8px] text-red-400">{error}</p>}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={e => { handleFileSelected(e.target.files?.[0]); e.target.value = ''; }}
+      />
+    </div>
+  );
+};
+
+export default SessionPanel;
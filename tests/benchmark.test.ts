@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PARTICLE_COUNT, ShapeType, TrailRender } from '../types';
+import {
+  BenchmarkResult, DEFAULT_BENCHMARK_SCENARIO,
+  benchmarkDuration, benchmarkFromQuery, benchmarkPhaseAt, phaseConfig, phaseQuality, summarizeBenchmark, syntheticHandResult,
+} from '../utils/benchmark';
+
+const scenario = { ...DEFAULT_BENCHMARK_SCENARIO, counts: [1000, 2000], stepSeconds: 2 };
+
+describe('benchmarkFromQuery', () => {
+  it('is off without the parameter', () => {
+    expect(benchmarkFromQuery('')).toBeNull();
+    expect(benchmarkFromQuery('?input=webcam')).toBeNull();
+  });
+
+  it('reads the step length, counts and seed', () => {
+    const parsed = benchmarkFromQuery(`?benchmark&step=1.5&counts=500,abc,${PARTICLE_COUNT * 2}&seed=9&download=1`)!;
+    expect(parsed.stepSeconds).toBe(1.5);
+    expect(parsed.counts).toEqual([500, PARTICLE_COUNT]);
+    expect(parsed.seed).toBe(9);
+    expect(parsed.download).toBe(true);
+  });
+
+  it('falls back to the defaults for bad values', () => {
+    const parsed = benchmarkFromQuery('?benchmark=1&step=-2&counts=')!;
+    expect(parsed.stepSeconds).toBe(DEFAULT_BENCHMARK_SCENARIO.stepSeconds);
+    expect(parsed.counts).toEqual(DEFAULT_BENCHMARK_SCENARIO.counts);
+    expect(parsed.download).toBe(false);
+  });
+});
+
+describe('benchmarkPhaseAt', () => {
+  it('runs every step for each count in turn, then ends', () => {
+    const steps = scenario.steps.length;
+    expect(benchmarkDuration(scenario)).toBe(2 * steps * 2);
+
+    const first = benchmarkPhaseAt(scenario, 0.1)!;
+    expect(first).toMatchObject({ index: 0, count: 1000, start: 0, measureFrom: 0.5, end: 2 });
+    expect(first.step).toBe(scenario.steps[0]);
+
+    const second = benchmarkPhaseAt(scenario, steps * 2 + 2.5)!;
+    expect(second).toMatchObject({ index: steps + 1, count: 2000 });
+    expect(second.step).toBe(scenario.steps[1]);
+
+    expect(benchmarkPhaseAt(scenario, benchmarkDuration(scenario))).toBeNull();
+  });
+
+  it('keeps half of a short step for measuring', () => {
+    const phase = benchmarkPhaseAt({ ...scenario, stepSeconds: 0.5 }, 0)!;
+    expect(phase.measureFrom).toBe(0.25);
+  });
+
+  it('resets the base config and seed for every phase', () => {
+    const lines = benchmarkPhaseAt(scenario, 4 * 2)!;
+    const next = benchmarkPhaseAt(scenario, 5 * 2)!;
+    expect(phaseConfig(scenario, lines).trailRender).toBe(TrailRender.LINES);
+    expect(phaseConfig(scenario, next)).toMatchObject({ trailRender: TrailRender.POINTS, shape: ShapeType.BUDDHA, seed: 1 });
+    expect(phaseQuality(next).particleFraction).toBeCloseTo(1000 / PARTICLE_COUNT);
+  });
+});
+
+describe('syntheticHandResult', () => {
+  it('reports the scripted gesture with its anchor', () => {
+    const point = syntheticHandResult('point', 1);
+    expect(point.isDetected).toBe(true);
+    expect(point.gesture).toBe('point');
+    expect(point.fingerTip).toBeDefined();
+
+    const peace = syntheticHandResult('peace', 1);
+    expect(peace.peaceOrbit1).toBeDefined();
+    expect(peace.peaceOrbit2).toBeDefined();
+    expect(syntheticHandResult('none', 1).isDetected).toBe(false);
+  });
+
+  it('moves the hand over time', () => {
+    expect(syntheticHandResult('open', 0).hands[0].palmCenter).not.toEqual(syntheticHandResult('open', 1).hands[0].palmCenter);
+  });
+
+  it('claps once per cycle with two hands', () => {
+    const stamps = new Set<number>();
+    for (let t = 0; t < 6; t += 1 / 30) {
+      const result = syntheticHandResult('clap', t);
+      expect(result.hands).toHaveLength(2);
+      expect(result.twoHand).toBeDefined();
+      if (result.clap) stamps.add(result.clap.timestamp);
+    }
+    expect(stamps.size).toBe(4);
+  });
+});
+
+describe('summarizeBenchmark', () => {
+  const result = (particles: number, frames: number, mean: number, p95: number) => ({
+    particles, frames, frameTime: { mean, p50: mean, p95, p99: p95 },
+  }) as BenchmarkResult;
+
+  it('weights steps by frame count per particle count', () => {
+    const summary = summarizeBenchmark([result(1000, 100, 10, 12), result(1000, 300, 20, 25), result(2000, 50, 40, 50)]);
+    expect(summary).toHaveLength(2);
+    expect(summary[0].particles).toBe(1000);
+    expect(summary[0].fps).toBeCloseTo(1000 / 17.5);
+    expect(summary[0].p95FrameTime).toBe(25);
+    expect(summary[1].fps).toBeCloseTo(25);
+  });
+});
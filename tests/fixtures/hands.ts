@@ -0,0 +1,76 @@
+import { Landmark } from '../../utils/handAnalysis';
+
+// Synthetic MediaPipe landmarks for a right hand held upright, palm to the
+// camera, in normalized image coordinates (y grows downward). The frame is
+// not mirrored, so the thumb is on the image's right. Palm size (wrist to
+// middle base) is 0.22.
+
+type Point2 = [number, number];
+
+const WRIST: Point2 = [0.5, 0.8];
+const THUMB_CMC: Point2 = [0.58, 0.75];
+
+// Base (MCP) joint of the thumb, index, middle, ring and pinky
+const BASES: Point2[] = [[0.62, 0.7], [0.55, 0.6], [0.5, 0.58], [0.45, 0.6], [0.4, 0.62]];
+
+// Fingertips when extended and when curled into the palm
+const EXTENDED_TIPS: Point2[] = [[0.75, 0.58], [0.55, 0.4], [0.5, 0.38], [0.45, 0.4], [0.4, 0.42]];
+const CURLED_TIPS: Point2[] = [[0.48, 0.7], [0.55, 0.62], [0.5, 0.6], [0.45, 0.62], [0.4, 0.64]];
+
+const point = ([x, y]: Point2): Landmark => ({ x, y, z: 0 });
+
+const lerp = (a: Point2, b: Point2, t: number): Point2 => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+// `tips` overrides individual fingertips (0 = thumb ... 4 = pinky)
+export const makeHand = (extended: boolean[], tips: Partial<Record<number, Point2>> = {}): Landmark[] => {
+  const landmarks = [point(WRIST)];
+  BASES.forEach((base, finger) => {
+    const tip = tips[finger] ?? (extended[finger] ? EXTENDED_TIPS[finger] : CURLED_TIPS[finger]);
+    // Thumb joints run CMC, MCP, IP, tip; fingers run MCP, PIP, DIP, tip
+    const joints = finger === 0
+      ? [THUMB_CMC, base, lerp(base, tip, 0.5), tip]
+      : [base, lerp(base, tip, 1 / 3), lerp(base, tip, 2 / 3), tip];
+    landmarks.push(...joints.map(point));
+  });
+  return landmarks;
+};
+
+export const OPEN_PALM = makeHand([true, true, true, true, true]);
+export const FIST = makeHand([false, false, false, false, false]);
+export const POINT = makeHand([false, true, false, false, false]);
+export const PEACE = makeHand([true, true, true, false, false]);
+// Index folded just short of "extended", thumb tip touching it
+export const PINCH = makeHand([false, false, false, false, false], { 0: [0.59, 0.58], 1: [0.57, 0.57] });
+
+// Rotate about the wrist's horizontal axis. Positive degrees tip the
+// fingers away from the camera, turning the palm toward the ceiling.
+export const tiltHand = (landmarks: Landmark[], degrees: number): Landmark[] => {
+  const angle = (degrees * Math.PI) / 180;
+  const wrist = landmarks[0];
+  return landmarks.map(p => {
+    const dy = p.y - wrist.y;
+    return { x: p.x, y: wrist.y + dy * Math.cos(angle), z: wrist.z - dy * Math.sin(angle) };
+  });
+};
+
+// Rotate about the wrist's vertical axis. Positive degrees turn the palm
+// toward the user's right (the image's left, as the preview is mirrored).
+export const turnHand = (landmarks: Landmark[], degrees: number): Landmark[] => {
+  const angle = (degrees * Math.PI) / 180;
+  const wrist = landmarks[0];
+  return landmarks.map(p => {
+    const dx = p.x - wrist.x;
+    const dz = p.z - wrist.z;
+    return {
+      x: wrist.x + dx * Math.cos(angle) + dz * Math.sin(angle),
+      y: p.y,
+      z: wrist.z - dx * Math.sin(angle) + dz * Math.cos(angle),
+    };
+  });
+};
+
+// The same pose made by the other hand
+export const mirrorHand = (landmarks: Landmark[]): Landmark[] => {
+  const wrist = landmarks[0];
+  return landmarks.map(p => ({ ...p, x: 2 * wrist.x - p.x }));
+};
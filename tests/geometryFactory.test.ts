@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { ShapeType, TRAIL_LENGTH } from '../types';
+import {
+  generateAttributes, generateColorAttributes, generateColors, generateGeometry, generateLineAttributes,
+} from '../utils/geometryFactory';
+import { createSimulationUvs } from '../utils/particleSimulation';
+import { mulberry32 } from '../utils/random';
+import { registerShape, unregisterShape } from '../utils/shapeRegistry';
+
+const COUNT = 2000;
+const EPSILON = 1e-5;
+
+type Box = { min: [number, number, number]; max: [number, number, number] };
+
+// Analytic bounds of each built-in sampler. Text needs a canvas, which
+// the test environment lacks; blank text is covered separately.
+const SHAPE_BOUNDS: Record<Exclude<ShapeType, ShapeType.TEXT>, Box> = {
+  [ShapeType.SPHERE]: { min: [-2.5, -2.5, -2.5], max: [2.5, 2.5, 2.5] },
+  [ShapeType.HEART]: { min: [-2.4, -2.05, -1], max: [2.4, 2.29, 1] },
+  // Golden-angle spiral: radius 0.1 * sqrt(index)
+  [ShapeType.FLOWER]: {
+    min: [-0.1 * Math.sqrt(COUNT), -1.75, -0.1 * Math.sqrt(COUNT)],
+    max: [0.1 * Math.sqrt(COUNT), 0.75, 0.1 * Math.sqrt(COUNT)],
+  },
+  // Ring of radius 3.3 tilted by 0.4 rad
+  [ShapeType.SATURN]: { min: [-3.3, -1.34, -3.3], max: [3.3, 1.34, 3.3] },
+  [ShapeType.BUDDHA]: { min: [-1.8, -1.45, -1.8], max: [1.8, 1.8, 1.8] },
+  [ShapeType.FIREWORKS]: { min: [-2, -2, -2], max: [2, 2, 2] },
+};
+
+const points = (positions: Float32Array) => {
+  return Array.from({ length: positions.length / 3 }, (_, i) => positions.subarray(i * 3, i * 3 + 3));
+};
+
+describe('generateGeometry', () => {
+  describe.each(Object.entries(SHAPE_BOUNDS))('%s', (shape, { min, max }) => {
+    const positions = generateGeometry(shape, COUNT, undefined, mulberry32(7));
+
+    it('returns one finite point per particle', () => {
+      expect(positions).toHaveLength(COUNT * 3);
+      expect(positions.every(Number.isFinite)).toBe(true);
+    });
+
+    it('stays inside the shape bounds', () => {
+      for (const p of points(positions)) {
+        for (let axis = 0; axis < 3; axis++) {
+          expect(p[axis]).toBeGreaterThanOrEqual(min[axis] - EPSILON);
+          expect(p[axis]).toBeLessThanOrEqual(max[axis] + EPSILON);
+        }
+      }
+    });
+
+    it('keeps every point outside the 0.3 exclusion radius', () => {
+      for (const p of points(positions)) {
+        expect(Math.hypot(p[0], p[1], p[2])).toBeGreaterThanOrEqual(0.3);
+      }
+    });
+  });
+
+  it('is reproducible for a seed', () => {
+    const a = generateGeometry(ShapeType.SATURN, COUNT, undefined, mulberry32(42));
+    const b = generateGeometry(ShapeType.SATURN, COUNT, undefined, mulberry32(42));
+    const c = generateGeometry(ShapeType.SATURN, COUNT, undefined, mulberry32(43));
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('falls back to a sphere for blank text and unknown shapes', () => {
+    const sphere = generateGeometry(ShapeType.SPHERE, COUNT, undefined, mulberry32(1));
+    const text = { text: ' \n ', font: 'sans-serif', depth: 0 };
+    expect(generateGeometry(ShapeType.TEXT, COUNT, { text }, mulberry32(1))).toEqual(sphere);
+    expect(generateGeometry('missing-shape', COUNT, undefined, mulberry32(1))).toEqual(sphere);
+  });
+
+  it('samples runtime-registered shapes and their colours', () => {
+    registerShape({
+      id: 'test:line',
+      label: 'Line',
+      icon: () => null,
+      sampler: (index, count) => ({ x: 1 + index / count, y: 0, z: 0 }),
+      attributes: { color: index => [index % 2, 0, 1] },
+    });
+    try {
+      const positions = generateGeometry('test:line', 4);
+      expect(Array.from(positions.filter((_, i) => i % 3 === 0))).toEqual([1, 1.25, 1.5, 1.75]);
+      expect(Array.from(generateColors('test:line', 2)!)).toEqual([0, 0, 1, 1, 0, 1]);
+    } finally {
+      unregisterShape('test:line');
+    }
+    expect(generateColors(ShapeType.SPHERE, 2)).toBeNull();
+  });
+});
+
+describe('buffer sizes', () => {
+  it('sizes point attributes by TRAIL_LENGTH', () => {
+    const { trailIndices, scales } = generateAttributes(COUNT, mulberry32(1));
+    expect(trailIndices).toHaveLength(COUNT * TRAIL_LENGTH);
+    expect(scales).toHaveLength(COUNT * TRAIL_LENGTH);
+    expect(Math.max(...trailIndices)).toBe(TRAIL_LENGTH - 1);
+    expect(createSimulationUvs(COUNT)).toHaveLength(COUNT * TRAIL_LENGTH * 2);
+  });
+
+  it('gives every vertex of one particle the same scale', () => {
+    const { scales } = generateAttributes(COUNT, mulberry32(1));
+    for (let t = 1; t < TRAIL_LENGTH; t++) expect(scales[t]).toBe(scales[0]);
+  });
+
+  it('sizes line attributes by the TRAIL_LENGTH - 1 segments', () => {
+    const { trailIndices } = generateLineAttributes(COUNT);
+    const lineVertices = COUNT * (TRAIL_LENGTH - 1) * 2;
+    expect(trailIndices).toHaveLength(lineVertices);
+    expect(createSimulationUvs(COUNT, (TRAIL_LENGTH - 1) * 2)).toHaveLength(lineVertices * 2);
+
+    const { pointColors, lineColors } = generateColorAttributes(new Float32Array(COUNT * 3), COUNT);
+    expect(pointColors).toHaveLength(COUNT * TRAIL_LENGTH * 3);
+    expect(lineColors).toHaveLength(lineVertices * 3);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { MOTION_GESTURES } from '../types';
+import { DEFAULT_GESTURE_BINDINGS, actionFor, behaviorFor } from '../utils/gestureBindings';
+
+describe('motion gesture bindings', () => {
+  it('bind every motion gesture to an action by default', () => {
+    MOTION_GESTURES.forEach(gesture => expect(actionFor(DEFAULT_GESTURE_BINDINGS, gesture)).not.toBe('none'));
+    expect(actionFor(DEFAULT_GESTURE_BINDINGS, 'swipe_right')).toBe('next_shape');
+  });
+
+  it('follow the bindings, including unbinding', () => {
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS, swipe_right: 'snapshot', push: 'none' } as const;
+    expect(actionFor(bindings, 'swipe_right')).toBe('snapshot');
+    expect(actionFor(bindings, 'push')).toBe('none');
+  });
+
+  it('keep the default actions for bindings saved without them', () => {
+    const bindings = { point: 'attract' } as const;
+    expect(actionFor(bindings, 'pull')).toBe('implode');
+    expect(actionFor(bindings, 'pinch')).toBe('none');
+    expect(behaviorFor(bindings, 'point')).toBe('attract');
+  });
+});
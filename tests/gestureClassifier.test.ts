@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createSampleCollector } from '../utils/gestureClassifier';
+import { OPEN_PALM } from './fixtures/hands';
+
+const frame = (timestamp: number) => ({ timestamp, hands: [{ handedness: 'right' as const, landmarks: OPEN_PALM }] });
+
+describe('createSampleCollector', () => {
+  it('collects for the duration in frame time', () => {
+    let clock = 0;
+    const collector = createSampleCollector(() => clock);
+    collector.start('wave', 100);
+    [5000, 5050, 5100, 5150].forEach(t => {
+      clock += 16;
+      collector.collect(frame(t));
+    });
+    expect(collector.isCollecting).toBe(false);
+    expect(collector.take()).toHaveLength(3);
+  });
+
+  it('gives up when no frames arrive', () => {
+    let clock = 0;
+    const collector = createSampleCollector(() => clock);
+    collector.start('wave', 100);
+    expect(collector.isCollecting).toBe(true);
+    clock = 5000;
+    expect(collector.isCollecting).toBe(false);
+    expect(collector.take()).toEqual([]);
+  });
+
+  it('stops on request', () => {
+    const collector = createSampleCollector(() => 0);
+    collector.start('wave', 100);
+    collector.stop();
+    collector.collect(frame(0));
+    expect(collector.isCollecting).toBe(false);
+    expect(collector.count).toBe(0);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createGestureStabilizer } from '../utils/gestureStabilizer';
+
+const FRAME_MS = 33;
+
+describe('createGestureStabilizer', () => {
+  it('does not enter a gesture on a single frame after a reset', () => {
+    const stabilizer = createGestureStabilizer();
+    for (let i = 0; i < 6; i++) stabilizer.update('point', i * FRAME_MS);
+    stabilizer.reset();
+    expect(stabilizer.update('peace', 1000)).toBe('none');
+    expect(stabilizer.update('none', 1000 + FRAME_MS)).toBe('none');
+  });
+
+  it('enters a gesture after a full run of frames', () => {
+    const stabilizer = createGestureStabilizer({ windowSize: 6, enterThreshold: 0.66 });
+    const seen = Array.from({ length: 6 }, (_, i) => stabilizer.update('peace', i * FRAME_MS));
+    expect(seen.slice(0, 3)).toEqual(['none', 'none', 'none']);
+    expect(seen[5]).toBe('peace');
+  });
+
+  it('holds the active gesture through a brief dropout', () => {
+    const stabilizer = createGestureStabilizer();
+    for (let i = 0; i < 6; i++) stabilizer.update('pinch', i * FRAME_MS);
+    expect(stabilizer.update('none', 6 * FRAME_MS)).toBe('pinch');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeHand, calculateTension, detectGesture, getPalmOrientation } from '../utils/handAnalysis';
+import { FIST, OPEN_PALM, PEACE, PINCH, POINT, mirrorHand, tiltHand, turnHand } from './fixtures/hands';
+
+const gestureOf = (landmarks = OPEN_PALM, handedness: 'left' | 'right' = 'right') => {
+  return analyzeHand(landmarks, handedness).gesture;
+};
+
+describe('calculateTension', () => {
+  it('is near 0 for an open hand and near 1 for a fist', () => {
+    expect(calculateTension(OPEN_PALM)).toBeLessThan(0.1);
+    expect(calculateTension(FIST)).toBeGreaterThan(0.9);
+  });
+
+  it('stays within 0-1', () => {
+    for (const hand of [OPEN_PALM, FIST, POINT, PEACE, PINCH]) {
+      const tension = calculateTension(hand);
+      expect(tension).toBeGreaterThanOrEqual(0);
+      expect(tension).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('detectGesture', () => {
+  it('recognizes the built-in poses', () => {
+    expect(gestureOf(POINT)).toBe('point');
+    expect(gestureOf(PEACE)).toBe('peace');
+    expect(gestureOf(PINCH)).toBe('pinch');
+  });
+
+  it('reports nothing for a fist or a palm facing the camera', () => {
+    expect(gestureOf(FIST)).toBe('none');
+    expect(gestureOf(OPEN_PALM)).toBe('none');
+  });
+
+  it('uses the palm normal for palm up / palm down', () => {
+    expect(gestureOf(tiltHand(OPEN_PALM, 60))).toBe('palm_up');
+    expect(gestureOf(tiltHand(OPEN_PALM, -60))).toBe('palm_down');
+    // Under 30 degrees of tilt still counts as facing the camera
+    expect(gestureOf(tiltHand(OPEN_PALM, 20))).toBe('none');
+  });
+
+  it('classifies a mirrored left hand like the right hand', () => {
+    expect(gestureOf(mirrorHand(tiltHand(OPEN_PALM, 60)), 'left')).toBe('palm_up');
+    expect(gestureOf(mirrorHand(tiltHand(OPEN_PALM, -60)), 'left')).toBe('palm_down');
+    expect(gestureOf(mirrorHand(PEACE), 'left')).toBe('peace');
+  });
+
+  it('needs a high tension for point and pinch', () => {
+    expect(detectGesture(POINT, 0.2)).toBe('none');
+    expect(detectGesture(PINCH, 0.5)).toBe('none');
+  });
+});
+
+describe('getPalmOrientation', () => {
+  it('points the normal at the viewer for an upright palm', () => {
+    const { normal, pitch, roll, yaw } = getPalmOrientation(OPEN_PALM, 'right');
+    expect(normal.z).toBeGreaterThan(0.99);
+    expect(pitch).toBeCloseTo(0);
+    expect(roll).toBeCloseTo(0);
+    expect(yaw).toBeCloseTo(0);
+  });
+
+  it('yaws toward the side the palm turns to', () => {
+    expect(getPalmOrientation(turnHand(OPEN_PALM, 30), 'right').yaw).toBeCloseTo(Math.PI / 6);
+    expect(getPalmOrientation(turnHand(OPEN_PALM, -30), 'right').yaw).toBeCloseTo(-Math.PI / 6);
+    expect(getPalmOrientation(mirrorHand(turnHand(OPEN_PALM, -30)), 'left').yaw).toBeCloseTo(Math.PI / 6);
+  });
+
+  it('pitches with the hand', () => {
+    const { pitch } = getPalmOrientation(tiltHand(OPEN_PALM, 45), 'right');
+    expect(pitch).toBeCloseTo(Math.PI / 4);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { RawHand, uniqueHandedness } from '../utils/inputSources';
+import { OPEN_PALM, FIST, mirrorHand } from './fixtures/hands';
+
+const hand = (handedness: RawHand['handedness'], landmarks = OPEN_PALM, score?: number): RawHand => ({ handedness, landmarks, score });
+
+describe('uniqueHandedness', () => {
+  it('keeps hands with different labels', () => {
+    const hands = [hand('right'), hand('left', mirrorHand(OPEN_PALM))];
+    expect(uniqueHandedness(hands)).toEqual(hands);
+  });
+
+  it('keeps the more confident of two hands with the same label', () => {
+    const weak = hand('right', FIST, 0.6);
+    const strong = hand('right', OPEN_PALM, 0.9);
+    expect(uniqueHandedness([weak, strong])).toEqual([strong]);
+    expect(uniqueHandedness([strong, weak])).toEqual([strong]);
+  });
+
+  it('keeps the first without scores', () => {
+    const first = hand('left', OPEN_PALM);
+    expect(uniqueHandedness([first, hand('left', FIST)])).toEqual([first]);
+  });
+});
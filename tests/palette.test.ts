@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { COLOR_DRIVERS, GradientStop } from '../types';
+import { BUILTIN_PALETTES, colorDriverIndex, samplePalette, splitWidestGap, writePaletteData } from '../utils/palette';
+
+const stops: GradientStop[] = [
+  { position: 1, color: '#0000ff' },
+  { position: 0, color: '#ff0000' },
+];
+
+describe('samplePalette', () => {
+  it('matches the end stops and holds them past the ends', () => {
+    expect(samplePalette(stops, 0).getHex()).toBe(0xff0000);
+    expect(samplePalette(stops, 1).getHex()).toBe(0x0000ff);
+    expect(samplePalette(stops, -1).getHex()).toBe(0xff0000);
+    expect(samplePalette([{ position: 0.5, color: '#00ff00' }], 0.9).getHex()).toBe(0x00ff00);
+  });
+
+  it('blends between neighbouring stops in the working colour space', () => {
+    const middle = samplePalette(stops, 0.5);
+    expect(middle.r).toBeCloseTo(0.5);
+    expect(middle.b).toBeCloseTo(0.5);
+    expect(middle.g).toBe(0);
+  });
+
+  it('falls back to white without stops', () => {
+    expect(samplePalette([], 0.5).getHex()).toBe(0xffffff);
+  });
+});
+
+describe('writePaletteData', () => {
+  it('fills one opaque texel per gradient step', () => {
+    const data = new Uint8Array(4 * 4);
+    writePaletteData(stops, data);
+    expect(Array.from(data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(data.slice(12, 16))).toEqual([0, 0, 255, 255]);
+  });
+});
+
+describe('splitWidestGap', () => {
+  it('adds a stop in the largest gap without changing the gradient there', () => {
+    const three: GradientStop[] = [...stops, { position: 0.2, color: '#ffffff' }];
+    const added = splitWidestGap(three);
+    expect(added.position).toBeCloseTo(0.6);
+    expect(new THREE.Color(added.color).getHex()).toBe(samplePalette(three, 0.6).getHex());
+  });
+
+  it('fills the space before the first stop', () => {
+    expect(splitWidestGap([{ position: 1, color: '#ffffff' }]).position).toBe(0.5);
+  });
+});
+
+describe('palettes', () => {
+  it('gives every driver its shader index and solid for unknown ones', () => {
+    COLOR_DRIVERS.forEach((driver, index) => expect(colorDriverIndex(driver)).toBe(index));
+    expect(colorDriverIndex('sparkle' as never)).toBe(0);
+  });
+
+  it('uses real gradients and drivers for the built-ins', () => {
+    for (const palette of BUILTIN_PALETTES) {
+      expect(palette.stops.length).toBeGreaterThan(1);
+      expect(palette.driver).not.toBe('solid');
+    }
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POST_PROCESSING, POST_EFFECTS, PostEffect, PostProcessingConfig } from '../types';
+import { activePostEffects } from '../utils/postProcessing';
+import { QUALITY_TIERS } from '../utils/qualityGovernor';
+
+const withEnabled = (...effects: PostEffect[]): PostProcessingConfig => {
+  const config = structuredClone(DEFAULT_POST_PROCESSING);
+  effects.forEach(effect => {
+    config[effect].enabled = true;
+  });
+  return config;
+};
+
+describe('activePostEffects', () => {
+  it('runs nothing by default', () => {
+    expect(activePostEffects(DEFAULT_POST_PROCESSING, POST_EFFECTS)).toEqual([]);
+  });
+
+  it('keeps enabled effects the tier allows, in chain order', () => {
+    const config = withEnabled('grain', 'bloom', 'afterimage');
+    expect(activePostEffects(config, POST_EFFECTS)).toEqual(['bloom', 'afterimage', 'grain']);
+    expect(activePostEffects(config, ['grain', 'vignette'])).toEqual(['grain']);
+  });
+});
+
+describe('quality tiers', () => {
+  it('allow every effect at the top and none at the bottom', () => {
+    expect(QUALITY_TIERS[0].postEffects).toEqual(POST_EFFECTS);
+    expect(QUALITY_TIERS[QUALITY_TIERS.length - 1].postEffects).toEqual([]);
+  });
+
+  it('only ever take effects away when dropping a tier', () => {
+    for (let i = 1; i < QUALITY_TIERS.length; i++) {
+      for (const effect of QUALITY_TIERS[i].postEffects) {
+        expect(QUALITY_TIERS[i - 1].postEffects).toContain(effect);
+      }
+    }
+  });
+});
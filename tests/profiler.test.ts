@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Profiler, createProfiler, percentile, timingStats } from '../utils/profiler';
+
+describe('percentile', () => {
+  it('interpolates between closest ranks', () => {
+    const sorted = [10, 20, 30, 40, 50];
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile(sorted, 50)).toBe(30);
+    expect(percentile(sorted, 100)).toBe(50);
+    expect(percentile(sorted, 90)).toBeCloseTo(46);
+  });
+
+  it('is 0 for no values', () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('timingStats', () => {
+  it('sorts its input', () => {
+    const stats = timingStats([5, 1, 3, 2, 4])!;
+    expect(stats.mean).toBe(3);
+    expect(stats.p50).toBe(3);
+    expect(stats.p99).toBeCloseTo(4.96);
+  });
+
+  it('is null without samples', () => {
+    expect(timingStats([])).toBeNull();
+  });
+});
+
+describe('createProfiler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // `seconds` of frames at a steady FPS, starting at clock.time (ms)
+  const run = (profiler: Profiler, clock: { time: number }, fps: number, seconds: number) => {
+    const frameTime = 1000 / fps;
+    for (let i = 0; i < fps * seconds; i++) {
+      clock.time += frameTime;
+      profiler.recordFrame(clock.time, frameTime, 2);
+    }
+  };
+
+  it('reports frame percentiles over the recent history only', () => {
+    const profiler = createProfiler({ historySize: 60 });
+    const clock = { time: 0 };
+    run(profiler, clock, 20, 3);
+    run(profiler, clock, 60, 1);
+    const { fps, frameTime, cpuTime } = profiler.snapshot();
+    expect(fps).toBe(60);
+    expect(frameTime!.p99).toBeCloseTo(1000 / 60);
+    expect(cpuTime!.p50).toBe(2);
+    expect(profiler.frameHistory()).toHaveLength(60);
+  });
+
+  it('keeps the tracking rate separate from render FPS', () => {
+    const profiler = createProfiler();
+    const clock = { time: 0 };
+    for (let i = 0; i < 30; i++) { // 2 s of tracking at 15 Hz
+      profiler.recordTrackingFrame(clock.time);
+      profiler.recordDetection(8);
+      run(profiler, clock, 60, 1 / 15);
+    }
+    const snapshot = profiler.snapshot();
+    expect(snapshot.fps).toBeCloseTo(60, -1);
+    // Counted over the last second, so one result may fall on the boundary
+    expect(Math.abs(snapshot.trackingRate - 15)).toBeLessThanOrEqual(1);
+    expect(snapshot.detectionLatency!.p95).toBe(8);
+    expect(snapshot.gpuTime).toBeNull();
+  });
+
+  it('samples the session once per interval and starts over on reset', () => {
+    const profiler = createProfiler({ sessionInterval: 1000, maxSessionSamples: 3 });
+    const clock = { time: 0 };
+    run(profiler, clock, 50, 2.5);
+    expect(profiler.snapshot().time).toBeCloseTo(2480);
+
+    // exportSession reads the environment, which needs a browser
+    vi.stubGlobal('navigator', { userAgent: 'test' });
+    vi.stubGlobal('window', { devicePixelRatio: 1, screen: { width: 1, height: 1 } });
+    expect(profiler.exportSession().samples.map(s => s.time)).toEqual([0, 1000, 2000]);
+    run(profiler, clock, 50, 2);
+    expect(profiler.exportSession().samples).toHaveLength(3);
+    profiler.resetSession();
+    expect(profiler.exportSession().samples).toEqual([]);
+    expect(profiler.snapshot().frameTime).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { QUALITY_TIERS, QualityGovernor, createQualityGovernor } from '../utils/qualityGovernor';
+
+// Feed `seconds` of frames at a steady FPS; returns the tier changes seen
+const run = (governor: QualityGovernor, clock: { time: number }, fps: number, seconds: number) => {
+  const changes: string[] = [];
+  const frameTime = 1 / fps;
+  for (let t = 0; t < seconds; t += frameTime) {
+    clock.time += frameTime;
+    if (governor.sample(clock.time, frameTime)) changes.push(governor.tier.name);
+  }
+  return changes;
+};
+
+describe('createQualityGovernor', () => {
+  it('starts at the best tier and holds it while fast', () => {
+    const governor = createQualityGovernor();
+    const clock = { time: 0 };
+    expect(run(governor, clock, 60, 20)).toEqual([]);
+    expect(governor.tier).toBe(QUALITY_TIERS[0]);
+  });
+
+  it('drops one tier at a time, settling between drops', () => {
+    const governor = createQualityGovernor();
+    const clock = { time: 0 };
+    // Two slow windows, then two seconds of settling, before each drop
+    expect(run(governor, clock, 30, 4.5)).toEqual(['High']);
+    expect(run(governor, clock, 30, 4)).toEqual(['Medium']);
+  });
+
+  it('ignores FPS between the thresholds', () => {
+    const governor = createQualityGovernor();
+    const clock = { time: 0 };
+    run(governor, clock, 30, 4.5);
+    expect(run(governor, clock, 50, 30)).toEqual([]);
+    expect(governor.tierIndex).toBe(1);
+  });
+
+  it('takes longer to retry a tier that failed before', () => {
+    const governor = createQualityGovernor({ upgradeWindows: 3 });
+    const clock = { time: 0 };
+    // Time from the end of a slow spell until Ultra comes back
+    const recovery = () => {
+      run(governor, clock, 30, 4.5);
+      const start = clock.time;
+      while (governor.tierIndex > 0) run(governor, clock, 60, 0.5);
+      return clock.time - start;
+    };
+
+    const first = recovery(); // Ultra failed once: 6 fast windows
+    const second = recovery(); // Twice: 12 fast windows
+    expect(first).toBeGreaterThanOrEqual(6);
+    expect(second - first).toBeGreaterThanOrEqual(5);
+  });
+
+  it('skips stalls such as background tabs', () => {
+    const governor = createQualityGovernor();
+    for (let i = 1; i <= 10; i++) expect(governor.sample(i * 2, 2)).toBe(false);
+    expect(governor.tierIndex).toBe(0);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { mulberry32 } from '../utils/random';
+
+describe('mulberry32', () => {
+  it('repeats its sequence for the same seed', () => {
+    const a = mulberry32(123);
+    const b = mulberry32(123);
+    for (let i = 0; i < 100; i++) expect(a()).toBe(b());
+  });
+
+  it('gives different sequences for different seeds', () => {
+    const a = mulberry32(1);
+    const b = mulberry32(2);
+    expect(Array.from({ length: 5 }, a)).not.toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it('stays in [0, 1) with a roughly uniform mean', () => {
+    const random = mulberry32(9);
+    let sum = 0;
+    for (let i = 0; i < 10000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+      sum += value;
+    }
+    expect(sum / 10000).toBeCloseTo(0.5, 1);
+  });
+});
@@ -5,8 +5,29 @@ export enum ShapeType {
   SATURN = 'Saturn',
   BUDDHA = 'Buddha',
   FIREWORKS = 'Fireworks',
+  TEXT = 'Text',
 }
 
+// Meshes and images imported by the user (see utils/shapeStore.ts)
+export type ImportedShapeId = `mesh:${string}` | `image:${string}`;
+
+// Built-in shapes use ShapeType; imported and runtime-registered shapes
+// bring their own ids (see utils/shapeRegistry.ts)
+export type ShapeId = string;
+
+// What ShapeType.TEXT spells (see utils/textShape.ts)
+export interface TextShapeOptions {
+  text: string; // Lines separated by '\n'
+  font: string; // CSS font family, built-in or uploaded
+  depth: number; // Extrusion depth in world units, 0 = flat
+}
+
+export const DEFAULT_TEXT_SHAPE: TextShapeOptions = {
+  text: 'HELLO',
+  font: 'sans-serif',
+  depth: 0.4,
+};
+
 export enum ParticleStyle {
   GLOW = 'Glow',
   DIGITAL = 'Digital',
@@ -14,26 +35,222 @@ export enum ParticleStyle {
   MAGIC = 'Magic',
 }
 
-export type GestureType = 'none' | 'point' | 'pinch' | 'palm_up' | 'palm_down' | 'peace';
+// How trail opacity and size fall off from the particle to the tail
+export enum TrailFade {
+  LINEAR = 'Linear',
+  QUADRATIC = 'Quadratic',
+  EXPONENTIAL = 'Exponential',
+}
 
-export interface HandTrackingResult {
+export enum TrailRender {
+  POINTS = 'Points', // One sprite per history sample
+  LINES = 'Lines', // Line segments joining the history samples
+}
+
+// Easing of shape-to-shape morphs
+export enum MorphEasing {
+  LINEAR = 'Linear',
+  SMOOTH = 'Smooth',
+  BACK = 'Back', // Overshoots, then settles
+  ELASTIC = 'Elastic',
+}
+
+// Screen-space effects applied after the particles are drawn (see utils/postProcessing.ts)
+export const POST_EFFECTS = ['bloom', 'afterimage', 'chromatic', 'vignette', 'grain'] as const;
+export type PostEffect = typeof POST_EFFECTS[number];
+
+export interface PostProcessingConfig {
+  bloom: { enabled: boolean; threshold: number; strength: number; radius: number }; // Threshold on luminance, 0-1
+  afterimage: { enabled: boolean; damp: number }; // Share of the previous frame kept, 0-1
+  chromatic: { enabled: boolean; amount: number }; // Red / blue offset as a share of the screen width
+  vignette: { enabled: boolean; offset: number; darkness: number };
+  grain: { enabled: boolean; intensity: number }; // 0-1
+}
+
+// All off: the chain is opt-in and the canvas is drawn directly until an effect is enabled
+export const DEFAULT_POST_PROCESSING: PostProcessingConfig = {
+  bloom: { enabled: false, threshold: 0.1, strength: 1.2, radius: 0.4 },
+  afterimage: { enabled: false, damp: 0.85 },
+  chromatic: { enabled: false, amount: 0.002 },
+  vignette: { enabled: false, offset: 1, darkness: 1.2 },
+  grain: { enabled: false, intensity: 0.35 },
+};
+
+// What places each particle on the palette gradient. The index is the
+// shader's uColorDriver value, so only append to this list.
+export const COLOR_DRIVERS = ['solid', 'radius', 'height', 'trail', 'speed', 'time', 'tension'] as const;
+export type ColorDriver = typeof COLOR_DRIVERS[number];
+
+export interface GradientStop {
+  position: number; // 0-1 along the gradient
+  color: string;
+}
+
+// Particle colouring (see utils/palette.ts). 'solid' draws config.color;
+// every other driver maps a per-particle value onto the gradient stops.
+export interface PaletteConfig {
+  driver: ColorDriver;
+  stops: GradientStop[]; // At least one, in any order
+  cycleRate: number; // Sweeps through the gradient per second with the 'time' driver
+}
+
+export const DEFAULT_PALETTE: PaletteConfig = {
+  driver: 'solid',
+  stops: [
+    { position: 0, color: '#00ffff' },
+    { position: 0.5, color: '#8a2be2' },
+    { position: 1, color: '#ff00ff' },
+  ],
+  cycleRate: 0.2,
+};
+
+export const BUILTIN_GESTURES = ['none', 'point', 'pinch', 'palm_up', 'palm_down', 'peace', 'clap'] as const;
+
+// Gestures trained in the browser (see utils/gestureClassifier.ts)
+export type CustomGesture = `custom:${string}`;
+
+export type GestureType = typeof BUILTIN_GESTURES[number] | CustomGesture;
+
+export type Handedness = 'left' | 'right';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Palm orientation in the view the user sees (mirrored, x right, y up,
+// z toward the viewer). Angles in radians.
+export interface PalmOrientation {
+  normal: Vec3; // Unit vector out of the palm
+  roll: number; // Around the viewing axis, counter-clockwise positive (fingers up = 0)
+  pitch: number; // Palm facing up = +PI/2, facing the screen = 0, facing down = -PI/2
+  yaw: number; // Palm turned toward the user's right = positive
+}
+
+// Per-hand tracking data (coordinates are normalized image space, 0-1)
+export interface HandData {
+  handedness: Handedness;
   tension: number; // 0.0 (Open) to 1.0 (Fist)
-  isDetected: boolean;
   gesture: GestureType;
+  palmCenter: Vec3; // Average of wrist and finger bases
+  palmOrientation: PalmOrientation; // From wrist, index base and pinky base
   // For gesture-specific targeting
-  fingerTip?: { x: number; y: number; z: number }; // For pointing gesture
-  pinchPosition?: { x: number; y: number; z: number }; // For pinch gesture
-  palmOrientation?: { x: number; y: number; z: number }; // For palm up/down detection
-  peaceOrbit1?: { x: number; y: number; z: number }; // For peace sign - first orbit center
-  peaceOrbit2?: { x: number; y: number; z: number }; // For peace sign - second orbit center
+  fingerTip?: Vec3; // For pointing gesture
+  pinchPosition?: Vec3; // For pinch gesture
+  peaceOrbit1?: Vec3; // For peace sign - first orbit center
+  peaceOrbit2?: Vec3; // For peace sign - second orbit center
+}
+
+// Signals derived from both hands when two are visible
+export interface TwoHandSignals {
+  palmDistance: number; // Distance between palm centers, in palm-size units
+  relativeRotation: number; // Signed angle (radians) of the line between palms vs horizontal
+  stretch: number; // 0.0 (palms together) to 1.0 (arms spread)
+  midpoint: Vec3; // Point halfway between both palms
 }
 
+// Fired once per clap, on the frame the palms meet
+export interface ClapEvent {
+  timestamp: number; // performance.now() time of impact (ms)
+  speed: number; // Peak closing speed, palm-sizes per second
+  intensity: number; // 0.0 (soft) to 1.0 (hard), from impact speed
+}
+
+export const MOTION_GESTURES = [
+  'swipe_left', 'swipe_right', 'swipe_up', 'swipe_down',
+  'circle_cw', 'circle_ccw',
+  'push', 'pull',
+] as const;
+export type MotionGesture = typeof MOTION_GESTURES[number];
+
+// Fired once when a hand trajectory completes a motion gesture
+export interface MotionEvent {
+  type: MotionGesture;
+  handedness: Handedness;
+  timestamp: number; // Frame time (ms)
+  strength: number; // 0.0 to 1.0, how far / how fast beyond the threshold
+}
+
+export interface HandTrackingResult {
+  isDetected: boolean;
+  // Primary hand (right hand when visible) - kept flat for single-hand consumers
+  tension: number; // 0.0 (Open) to 1.0 (Fist)
+  gesture: GestureType;
+  fingerTip?: Vec3;
+  pinchPosition?: Vec3;
+  palmOrientation?: PalmOrientation;
+  peaceOrbit1?: Vec3;
+  peaceOrbit2?: Vec3;
+  // All detected hands
+  hands: HandData[];
+  twoHand?: TwoHandSignals;
+  clap?: ClapEvent; // Only set on the frame a clap is detected
+  motion?: MotionEvent; // Only set on the frame a motion gesture completes
+}
+
+// Personal thresholds for tension and finger extension (see utils/calibration.ts)
+export interface CalibrationProfile {
+  closedValue: number; // Normalized fingertip spread of a tight fist
+  openValue: number; // Normalized fingertip spread of a fully open hand
+  extensionThreshold: number; // Base-to-tip distance above which a finger counts as extended
+  createdAt?: number;
+}
+
+// Values observed on the original author's hand
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  closedValue: 0.80,
+  openValue: 1.75,
+  extensionThreshold: 0.04,
+};
+
+// Things a gesture can trigger besides moving particles (see utils/appActions.ts)
+export type AppAction =
+  | 'none'
+  | 'next_shape' | 'prev_shape'
+  | 'next_color' | 'prev_color'
+  | 'spin_cw' | 'spin_ccw' // Spin impulse on points.rotation
+  | 'burst' | 'implode' // Outward / inward explosion pulse
+  | 'snapshot'; // Download the current frame as a PNG
+
+// Continuous forces applied while a gesture is held. The index is the
+// shader's uBehavior value, so only append to this list.
+export const PARTICLE_BEHAVIORS = ['none', 'attract', 'cluster', 'gravity', 'split_orbit', 'repel', 'vortex'] as const;
+export type ParticleBehavior = typeof PARTICLE_BEHAVIORS[number];
+
+// A gesture either drives a behaviour while held or fires an action once
+// when it starts; motion gestures are events and only fire actions
+export type GestureBinding = ParticleBehavior | AppAction;
+export type GestureBindings = Partial<Record<GestureType | MotionGesture, GestureBinding>>;
+
 export interface ParticleConfig {
   color: string;
-  shape: ShapeType;
+  palette: PaletteConfig;
+  shape: ShapeId;
+  text: TextShapeOptions;
+  seed: number; // Seeds shape generation, so the same seed gives the same points
   style: ParticleStyle;
+  gestureBindings: GestureBindings;
+  trailLength: number; // History samples drawn per particle, 1 to TRAIL_LENGTH
+  trailFade: TrailFade;
+  trailRender: TrailRender;
+  morphEasing: MorphEasing;
+  morphDuration: number; // Seconds for a whole shape change, stagger included
+  morphStagger: number; // 0 = all particles move together, up to 0.8 = a long ripple
+  postProcessing: PostProcessingConfig;
 }
 
+export const PRESET_COLORS = [
+  '#00ffff', // Cyan
+  '#ff00ff', // Magenta
+  '#ffff00', // Yellow
+  '#ff3333', // Red
+  '#33ff33', // Green
+  '#ffffff', // White
+  '#00ff88', // Turquoise
+  '#ff6600', // Orange
+];
+
 // Optimized particle count based on device performance
 export const PARTICLE_COUNT = (() => {
   // Check for GPU performance capabilities
@@ -62,4 +279,5 @@ export const PARTICLE_COUNT = (() => {
   }
 })();
 
-export const TRAIL_LENGTH = 5;
\ No newline at end of file
+// History samples kept per particle - the longest trail config.trailLength can ask for
+export const TRAIL_LENGTH = 8;
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { AppAction, ParticleConfig, PRESET_COLORS } from '../types';
+import { listShapes } from './shapeRegistry';
+
+// Actions handled inside ParticleSystem rather than by changing config
+export type ParticleAction = Extract<AppAction, 'spin_cw' | 'spin_ccw' | 'burst' | 'implode' | 'snapshot'>;
+
+// Delivered to ParticleSystem; `id` changes on every dispatch so repeats fire
+export interface ParticleActionSignal {
+  action: ParticleAction;
+  strength: number; // 0.0 to 1.0
+  id: number;
+}
+
+export const isParticleAction = (action: AppAction): action is ParticleAction => {
+  return action === 'spin_cw' || action === 'spin_ccw' || action === 'burst' || action === 'implode' || action === 'snapshot';
+};
+
+const cycle = <T>(list: T[], current: T, step: number): T => {
+  const index = list.indexOf(current);
+  return list[(Math.max(index, 0) + step + list.length) % list.length];
+};
+
+// Preset colour `step` away, drawn solid so the change shows over a palette
+const cycleColor = (config: ParticleConfig, step: number): ParticleConfig => ({
+  ...config,
+  color: cycle(PRESET_COLORS, config.color, step),
+  palette: { ...config.palette, driver: 'solid' },
+});
+
+// Config changes for shape / colour actions; other actions leave it as is
+export const applyConfigAction = (config: ParticleConfig, action: AppAction): ParticleConfig => {
+  const shapes = listShapes().map(shape => shape.id);
+  switch (action) {
+    case 'next_shape': return { ...config, shape: cycle(shapes, config.shape, 1) };
+    case 'prev_shape': return { ...config, shape: cycle(shapes, config.shape, -1) };
+    case 'next_color': return cycleColor(config, 1);
+    case 'prev_color': return cycleColor(config, -1);
+    default: return config;
+  }
+};
@@ -0,0 +1,324 @@
+import {
+  DEFAULT_PALETTE, DEFAULT_POST_PROCESSING, HandData, HandTrackingResult, ParticleConfig, ParticleStyle, PARTICLE_COUNT,
+  PostProcessingConfig, ShapeType, TrailRender, Vec3,
+} from '../types';
+import { buildTrackingResult } from './handAnalysis';
+import { Profiler, ProfilerOptions, ProfilerSession, RenderStats, TimingStats } from './profiler';
+import { QUALITY_TIERS, QualityTier } from './qualityGovernor';
+
+// Scripted hand input replacing the camera during a benchmark
+export type SyntheticGesture = 'none' | 'open' | 'fist' | 'point' | 'pinch' | 'peace' | 'two_hands' | 'clap';
+
+export interface BenchmarkStep {
+  gesture: SyntheticGesture;
+  config: Partial<ParticleConfig>; // Applied on top of the benchmark's base config
+}
+
+export interface BenchmarkScenario {
+  counts: number[]; // Particle counts swept, each capped at PARTICLE_COUNT
+  steps: BenchmarkStep[]; // Run once for every count
+  baseConfig: Partial<ParticleConfig>; // Restored before every step so steps do not inherit each other's settings
+  stepSeconds: number;
+  warmupSeconds: number; // Start of each step left out of the stats (shader compiles, morph start)
+  seed: number; // Fixed so every run draws the same points
+  trackingRate: number; // Synthetic hand results per second
+  download: boolean; // Save the report as soon as the run ends
+}
+
+// Every effect at its default settings, for the post-processing step
+const ALL_POST_EFFECTS: PostProcessingConfig = {
+  bloom: { ...DEFAULT_POST_PROCESSING.bloom, enabled: true },
+  afterimage: { ...DEFAULT_POST_PROCESSING.afterimage, enabled: true },
+  chromatic: { ...DEFAULT_POST_PROCESSING.chromatic, enabled: true },
+  vignette: { ...DEFAULT_POST_PROCESSING.vignette, enabled: true },
+  grain: { ...DEFAULT_POST_PROCESSING.grain, enabled: true },
+};
+
+export const DEFAULT_BENCHMARK_STEPS: BenchmarkStep[] = [
+  { gesture: 'open', config: { shape: ShapeType.SPHERE, style: ParticleStyle.GLOW } },
+  { gesture: 'point', config: { shape: ShapeType.HEART, style: ParticleStyle.DIGITAL } },
+  { gesture: 'pinch', config: { shape: ShapeType.SATURN, style: ParticleStyle.CYBER } },
+  { gesture: 'peace', config: { shape: ShapeType.FLOWER, style: ParticleStyle.MAGIC, palette: { ...DEFAULT_PALETTE, driver: 'speed' } } },
+  { gesture: 'two_hands', config: { shape: ShapeType.FIREWORKS, style: ParticleStyle.GLOW, trailRender: TrailRender.LINES } },
+  { gesture: 'clap', config: { shape: ShapeType.BUDDHA, style: ParticleStyle.GLOW } },
+  { gesture: 'open', config: { shape: ShapeType.SPHERE, style: ParticleStyle.GLOW, postProcessing: ALL_POST_EFFECTS } },
+];
+
+export const DEFAULT_BENCHMARK_SCENARIO: BenchmarkScenario = {
+  counts: [0.25, 0.5, 0.75, 1].map(fraction => Math.round(PARTICLE_COUNT * fraction)),
+  steps: DEFAULT_BENCHMARK_STEPS,
+  baseConfig: { trailLength: 5, trailRender: TrailRender.POINTS, palette: DEFAULT_PALETTE, postProcessing: DEFAULT_POST_PROCESSING },
+  stepSeconds: 3,
+  warmupSeconds: 0.5,
+  seed: 1,
+  trackingRate: 30,
+  download: false,
+};
+
+// A whole step is held in the profiler, so it needs more history than the live panel
+export const BENCHMARK_PROFILER_OPTIONS: Partial<ProfilerOptions> = { historySize: 8192 };
+
+// Benchmark from the URL, e.g. ?benchmark&step=2&counts=1000,5000&download=1.
+// The camera and MediaPipe are never started, so it runs in headless
+// Chromium with software WebGL (--use-angle=swiftshader).
+export const benchmarkFromQuery = (search: string = window.location.search): BenchmarkScenario | null => {
+  const params = new URLSearchParams(search);
+  if (!params.has('benchmark')) return null;
+
+  const number = (name: string, fallback: number) => {
+    const value = Number(params.get(name));
+    return params.has(name) && Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+  const counts = (params.get('counts') ?? '')
+    .split(',')
+    .map(Number)
+    .filter(count => Number.isFinite(count) && count > 0)
+    .map(count => Math.min(Math.round(count), PARTICLE_COUNT));
+
+  return {
+    ...DEFAULT_BENCHMARK_SCENARIO,
+    counts: counts.length > 0 ? counts : DEFAULT_BENCHMARK_SCENARIO.counts,
+    stepSeconds: number('step', DEFAULT_BENCHMARK_SCENARIO.stepSeconds),
+    seed: number('seed', DEFAULT_BENCHMARK_SCENARIO.seed),
+    download: params.get('download') === '1',
+  };
+};
+
+export const benchmarkDuration = (scenario: BenchmarkScenario) => {
+  return scenario.counts.length * scenario.steps.length * scenario.stepSeconds;
+};
+
+// One count / step pair; phases run count by count, every step within each
+export interface BenchmarkPhase {
+  index: number;
+  count: number;
+  step: BenchmarkStep;
+  start: number; // Seconds since the run started
+  measureFrom: number; // start + warmupSeconds
+  end: number;
+}
+
+// Config for a phase: the same points every run, whatever the user last picked
+export const phaseConfig = (scenario: BenchmarkScenario, phase: BenchmarkPhase): Partial<ParticleConfig> => {
+  return { ...scenario.baseConfig, ...phase.step.config, seed: scenario.seed };
+};
+
+// Fixed quality for a phase: the governor is bypassed and the pixel ratio
+// pinned so results do not depend on the display
+export const phaseQuality = (phase: BenchmarkPhase): QualityTier => ({
+  ...QUALITY_TIERS[0],
+  name: 'Benchmark',
+  particleFraction: phase.count / PARTICLE_COUNT,
+  pixelRatio: 1,
+});
+
+// Phase running at `elapsed` seconds, or null once the run is over
+export const benchmarkPhaseAt = (scenario: BenchmarkScenario, elapsed: number): BenchmarkPhase | null => {
+  const index = Math.floor(Math.max(elapsed, 0) / scenario.stepSeconds);
+  if (index >= scenario.counts.length * scenario.steps.length) return null;
+  const start = index * scenario.stepSeconds;
+  return {
+    index,
+    count: scenario.counts[Math.floor(index / scenario.steps.length)],
+    step: scenario.steps[index % scenario.steps.length],
+    start,
+    measureFrom: start + Math.min(scenario.warmupSeconds, scenario.stepSeconds / 2),
+    end: start + scenario.stepSeconds,
+  };
+};
+
+const FLAT_PALM = { normal: { x: 0, y: 0, z: 1 }, roll: 0, pitch: 0, yaw: 0 };
+
+const syntheticHand = (handedness: HandData['handedness'], palmCenter: Vec3, tension: number, roll: number): HandData => ({
+  handedness,
+  tension,
+  gesture: 'none',
+  palmCenter,
+  palmOrientation: { ...FLAT_PALM, roll },
+});
+
+// Hand input for `gesture` at `time` seconds: the palm circles the centre of
+// the frame while the gesture is held, so anchors and tilt keep moving
+export const syntheticHandResult = (gesture: SyntheticGesture, time: number): HandTrackingResult => {
+  if (gesture === 'none') return buildTrackingResult([]);
+
+  const angle = time * 1.5;
+  const palm = { x: 0.5 + Math.cos(angle) * 0.15, y: 0.5 + Math.sin(angle) * 0.15, z: 0 };
+  const roll = Math.sin(time) * 0.3;
+  const offset = (dx: number, dy: number) => ({ x: palm.x + dx, y: palm.y + dy, z: 0 });
+
+  if (gesture === 'two_hands' || gesture === 'clap') {
+    // Palms spread and close; a clap fires once per cycle when they meet mid-cycle
+    const cycle = gesture === 'clap' ? 1.5 : 4;
+    const phase = (time % cycle) / cycle;
+    const stretch = 0.5 + 0.5 * Math.cos(phase * Math.PI * 2);
+    const spread = 0.05 + stretch * 0.3;
+    const left = syntheticHand('left', { x: 0.5 - spread, y: 0.5, z: 0 }, 0.2, -roll);
+    const right = syntheticHand('right', { x: 0.5 + spread, y: 0.5, z: 0 }, 0.2, roll);
+    const twoHand = {
+      palmDistance: spread * 20,
+      relativeRotation: roll * 0.5,
+      stretch,
+      midpoint: { x: 0.5, y: 0.5, z: 0 },
+    };
+    const clap = gesture === 'clap' && stretch < 0.1
+      ? { timestamp: (time - time % cycle) * 1000, speed: 8, intensity: 0.7 }
+      : undefined;
+    return buildTrackingResult([left, right], { twoHand, clap });
+  }
+
+  const hand = syntheticHand('right', palm, 0.2, roll);
+  if (gesture === 'open') {
+    hand.tension = 0.3 + Math.sin(time * 2) * 0.3;
+  } else if (gesture === 'fist') {
+    hand.tension = 0.95;
+  } else {
+    hand.tension = 0.8; // Point and pinch need a firm hand
+    hand.gesture = gesture;
+    if (gesture === 'point') hand.fingerTip = offset(0, -0.12);
+    if (gesture === 'pinch') hand.pinchPosition = offset(0.04, -0.08);
+    if (gesture === 'peace') {
+      hand.peaceOrbit1 = offset(-0.04, -0.14);
+      hand.peaceOrbit2 = offset(0.04, -0.14);
+    }
+  }
+  return buildTrackingResult([hand]);
+};
+
+export interface BenchmarkResult {
+  particles: number;
+  gesture: SyntheticGesture;
+  config: Partial<ParticleConfig>;
+  frames: number;
+  fps: number; // From the mean frame time
+  frameTime: TimingStats | null;
+  cpuTime: TimingStats | null;
+  gpuTime: TimingStats | null;
+  render: RenderStats;
+}
+
+export interface BenchmarkReport {
+  version: 1;
+  startedAt: string; // ISO date
+  environment: ProfilerSession['environment'] & { viewport: [number, number] };
+  scenario: Omit<BenchmarkScenario, 'download'>;
+  results: BenchmarkResult[];
+  // Per particle count, across all steps
+  summary: { particles: number; fps: number; p95FrameTime: number }[];
+}
+
+export const summarizeBenchmark = (results: BenchmarkResult[]): BenchmarkReport['summary'] => {
+  const counts = Array.from(new Set(results.map(result => result.particles)));
+  return counts.map(particles => {
+    const matching = results.filter(result => result.particles === particles && result.frameTime);
+    const frames = matching.reduce((sum, result) => sum + result.frames, 0);
+    // Frame-weighted mean frame time; the p95 reported is the worst step's
+    const meanFrameTime = matching.reduce((sum, result) => sum + result.frameTime!.mean * result.frames, 0) / frames;
+    return {
+      particles,
+      fps: frames > 0 ? 1000 / meanFrameTime : 0,
+      p95FrameTime: Math.max(0, ...matching.map(result => result.frameTime!.p95)),
+    };
+  });
+};
+
+export interface BenchmarkCallbacks {
+  onPhase: (phase: BenchmarkPhase) => void; // Apply phaseConfig / phaseQuality
+  onHandUpdate: (result: HandTrackingResult) => void;
+  onEnd: (report: BenchmarkReport) => void;
+}
+
+// Plays a scenario against the live renderer. Frame stats come from the
+// profiler, which is reset once each phase has warmed up and read when it ends.
+export const createBenchmarkRunner = (scenario: BenchmarkScenario, profiler: Profiler, callbacks: BenchmarkCallbacks) => {
+  let animationFrame: number | null = null;
+  let elapsed = 0;
+  let phase: BenchmarkPhase | null = null;
+
+  const resultFor = ({ count, step }: BenchmarkPhase): BenchmarkResult => {
+    const { frameTime, cpuTime, gpuTime, render } = profiler.snapshot();
+    return {
+      particles: count,
+      gesture: step.gesture,
+      config: step.config,
+      frames: profiler.frameHistory().length,
+      fps: frameTime ? 1000 / frameTime.mean : 0,
+      frameTime,
+      cpuTime,
+      gpuTime,
+      render,
+    };
+  };
+
+  const start = () => {
+    stop();
+    const startedAt = new Date();
+    const startTime = performance.now();
+    const results: BenchmarkResult[] = [];
+    let measuring = false;
+    let lastHandUpdate = -Infinity;
+    phase = null;
+
+    const tick = () => {
+      const now = performance.now();
+      elapsed = (now - startTime) / 1000;
+
+      // A stall longer than a step skips that step; it gets no result
+      const next = benchmarkPhaseAt(scenario, elapsed);
+      if (next?.index !== phase?.index) {
+        if (phase && measuring) results.push(resultFor(phase));
+        phase = next;
+        measuring = false;
+        if (!phase) {
+          animationFrame = null;
+          const { download, ...settings } = scenario;
+          callbacks.onEnd({
+            version: 1,
+            startedAt: startedAt.toISOString(),
+            environment: { ...profiler.environment(), viewport: [window.innerWidth, window.innerHeight] },
+            scenario: settings,
+            results,
+            summary: summarizeBenchmark(results),
+          });
+          return;
+        }
+        callbacks.onPhase(phase);
+      }
+
+      if (!measuring && elapsed >= phase!.measureFrom) {
+        profiler.resetSession();
+        measuring = true;
+      }
+      if (now - lastHandUpdate >= 1000 / scenario.trackingRate) {
+        lastHandUpdate = now;
+        callbacks.onHandUpdate(syntheticHandResult(phase!.step.gesture, elapsed - phase!.start));
+      }
+      animationFrame = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const stop = () => {
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+    animationFrame = null;
+  };
+
+  return {
+    start,
+    stop,
+    get elapsed() {
+      return elapsed;
+    },
+    get phase() {
+      return phase;
+    },
+  };
+};
+
+export type BenchmarkRunner = ReturnType<typeof createBenchmarkRunner>;
+
+declare global {
+  interface Window {
+    benchmarkReport?: BenchmarkReport; // Set when a benchmark finishes, for headless runners
+  }
+}
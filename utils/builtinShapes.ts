@@ -0,0 +1,118 @@
+import { Activity, Atom, Flower, Globe, Heart, Type, Zap } from 'lucide-react';
+import { ShapeType, Vec3 } from '../types';
+import type { ShapeDefinition } from './shapeRegistry';
+import { sampleText } from './textShape';
+
+export const randomPointInSphere = (radius: number, rng: () => number): Vec3 => {
+  const u = rng();
+  const v = rng();
+  const theta = 2 * Math.PI * u;
+  const phi = Math.acos(2 * v - 1);
+  // Avoid center - use minimum radius to keep particles on outer surface
+  const r = radius * (0.8 + Math.cbrt(rng()) * 0.2); // Min 0.8 * radius
+  return {
+    x: r * Math.sin(phi) * Math.cos(theta),
+    y: r * Math.sin(phi) * Math.sin(theta),
+    z: r * Math.cos(phi),
+  };
+};
+
+// The shapes shipped with the app, in toolbox order
+export const BUILTIN_SHAPES: ShapeDefinition[] = [
+  {
+    id: ShapeType.SPHERE,
+    label: 'Sphere',
+    icon: Globe,
+    sampler: (_index, _count, rng) => randomPointInSphere(2.5, rng),
+  },
+  {
+    id: ShapeType.HEART,
+    label: 'Heart',
+    icon: Heart,
+    sampler: (_index, _count, rng) => {
+      const t = rng() * Math.PI * 2;
+      const r = Math.sqrt(rng());
+      const scale = 0.15;
+      return {
+        x: scale * 16 * Math.pow(Math.sin(t), 3),
+        y: scale * (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)) + 0.5,
+        z: (rng() - 0.5) * 2.0 * r,
+      };
+    },
+  },
+  {
+    id: ShapeType.FLOWER,
+    label: 'Flower',
+    icon: Flower,
+    sampler: (index, _count, rng) => {
+      const scale = 0.1;
+      const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+      const theta = index * goldenAngle;
+      const r = scale * Math.sqrt(index);
+      return {
+        x: r * Math.cos(theta),
+        y: (rng() - 0.5) * 0.5 + Math.cos(r * 1.5) * 1.0 - 0.5,
+        z: r * Math.sin(theta),
+      };
+    },
+  },
+  {
+    id: ShapeType.SATURN,
+    label: 'Saturn',
+    icon: Atom,
+    sampler: (_index, _count, rng) => {
+      if (rng() > 0.4) return randomPointInSphere(1.2, rng);
+
+      const angle = rng() * Math.PI * 2;
+      const dist = 1.8 + rng() * 1.5;
+      const x = Math.cos(angle) * dist;
+      const z = Math.sin(angle) * dist;
+      const y = (rng() - 0.5) * 0.1;
+
+      const tilt = 0.4;
+      return {
+        x,
+        y: y * Math.cos(tilt) - z * Math.sin(tilt),
+        z: y * Math.sin(tilt) + z * Math.cos(tilt),
+      };
+    },
+  },
+  {
+    id: ShapeType.BUDDHA,
+    label: 'Zen',
+    icon: Activity,
+    sampler: (_index, _count, rng) => {
+      const r = rng();
+      if (r < 0.25) {
+        const p = randomPointInSphere(0.6, rng);
+        return { x: p.x, y: p.y + 1.2, z: p.z };
+      } else if (r < 0.65) {
+        const p = randomPointInSphere(1.0, rng);
+        return { x: p.x * 1.1, y: p.y * 1.2, z: p.z * 0.9 };
+      }
+      const angle = rng() * Math.PI * 2;
+      const dist = 1.0 + rng() * 0.8;
+      return {
+        x: Math.cos(angle) * dist,
+        y: -1.2 + (rng() - 0.5) * 0.5,
+        z: Math.sin(angle) * dist,
+      };
+    },
+  },
+  {
+    id: ShapeType.FIREWORKS,
+    label: 'Burst',
+    icon: Zap,
+    sampler: (_index, _count, rng) => {
+      const p = randomPointInSphere(0.2, rng);
+      return { x: p.x * 10.0, y: p.y * 10.0, z: p.z * 10.0 };
+    },
+  },
+  {
+    id: ShapeType.TEXT,
+    label: 'Text',
+    icon: Type,
+    // Blank text falls back to a sphere
+    sampler: (_index, _count, rng, { text }) => sampleText(text, rng) ?? randomPointInSphere(2.5, rng),
+  },
+];
@@ -0,0 +1,72 @@
+import { CalibrationProfile, DEFAULT_CALIBRATION } from '../types';
+import { Landmark, distance3D, getNormalizedSpread } from './handAnalysis';
+
+const STORAGE_KEY = 'particle-testing:calibration';
+
+// Fewer samples than this per pose means the hand was mostly out of frame
+export const MIN_CALIBRATION_SAMPLES = 10;
+
+export const loadCalibration = (): CalibrationProfile | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const profile = JSON.parse(raw) as CalibrationProfile;
+    if (
+      typeof profile.closedValue !== 'number' ||
+      typeof profile.openValue !== 'number' ||
+      typeof profile.extensionThreshold !== 'number'
+    ) {
+      return null;
+    }
+    return profile;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveCalibration = (profile: CalibrationProfile) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+};
+
+export const clearCalibration = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Base/tip landmark pairs for index, middle, ring and pinky. The thumb is
+// left out: it often stays out to the side in a fist.
+const FINGERS: [number, number][] = [[5, 8], [9, 12], [13, 16], [17, 20]];
+
+const fingerExtensions = (landmarks: Landmark[]) => {
+  return FINGERS.map(([base, tip]) => distance3D(landmarks[base], landmarks[tip]));
+};
+
+// Build a profile from open-hand and fist samples. Throws with a
+// user-facing message when the two poses cannot be told apart.
+export const computeCalibration = (openSamples: Landmark[][], fistSamples: Landmark[][]): CalibrationProfile => {
+  if (openSamples.length < MIN_CALIBRATION_SAMPLES || fistSamples.length < MIN_CALIBRATION_SAMPLES) {
+    throw new Error('Not enough hand samples - keep your hand in view.');
+  }
+
+  // Medians keep a few mis-tracked frames from skewing the result
+  const openValue = median(openSamples.map(getNormalizedSpread));
+  const closedValue = median(fistSamples.map(getNormalizedSpread));
+  if (openValue - closedValue < 0.2) {
+    throw new Error('Open hand and fist look too similar - try again.');
+  }
+
+  // Threshold halfway between the least extended open finger and the
+  // most extended fist finger
+  const openMin = median(openSamples.map(lm => Math.min(...fingerExtensions(lm))));
+  const fistMax = median(fistSamples.map(lm => Math.max(...fingerExtensions(lm))));
+  const extensionThreshold = openMin > fistMax
+    ? (openMin + fistMax) / 2
+    : DEFAULT_CALIBRATION.extensionThreshold;
+
+  return { closedValue, openValue, extensionThreshold, createdAt: Date.now() };
+};
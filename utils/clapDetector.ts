@@ -0,0 +1,92 @@
+import { ClapEvent, TwoHandSignals } from '../types';
+
+export interface ClapDetectorOptions {
+  contactDistance: number; // Palm distance (palm-size units) that counts as contact
+  releaseDistance: number; // Hands must separate past this before the next clap
+  minSpeed: number; // Minimum closing speed (palm-sizes per second)
+  maxSpeed: number; // Closing speed mapped to full intensity
+  cooldownMs: number; // Minimum time between two claps
+  speedWindowMs: number; // How far back to look for the peak closing speed
+}
+
+export const DEFAULT_CLAP_OPTIONS: ClapDetectorOptions = {
+  contactDistance: 2.2,
+  releaseDistance: 3.0,
+  minSpeed: 6,
+  maxSpeed: 30,
+  cooldownMs: 500,
+  speedWindowMs: 200,
+};
+
+// Palms closer than this when one hand disappears are treated as occluding
+// each other - MediaPipe often loses a hand at the moment of impact
+const OCCLUSION_DISTANCE = 3.5;
+
+export const createClapDetector = (options: Partial<ClapDetectorOptions> = {}) => {
+  const opts = { ...DEFAULT_CLAP_OPTIONS, ...options };
+
+  let lastDistance: number | null = null;
+  let lastTimestamp = 0;
+  let speedSamples: { t: number; speed: number }[] = [];
+  let armed = true;
+  let lastClapTime = -Infinity;
+
+  const peakSpeed = (timestamp: number) => {
+    speedSamples = speedSamples.filter(s => timestamp - s.t <= opts.speedWindowMs);
+    return speedSamples.reduce((max, s) => Math.max(max, s.speed), 0);
+  };
+
+  const fire = (timestamp: number, speed: number): ClapEvent | null => {
+    if (!armed || timestamp - lastClapTime < opts.cooldownMs || speed < opts.minSpeed) {
+      return null;
+    }
+    armed = false;
+    lastClapTime = timestamp;
+    speedSamples = [];
+    const intensity = Math.min(1, (speed - opts.minSpeed) / (opts.maxSpeed - opts.minSpeed));
+    return { timestamp, speed, intensity };
+  };
+
+  // Feed one frame of two-hand signals (undefined when fewer than two hands
+  // are visible). Returns a clap event on the frame the clap lands.
+  const update = (twoHand: TwoHandSignals | undefined, timestamp: number): ClapEvent | null => {
+    if (!twoHand) {
+      // Hands vanished right after closing fast: count it as contact
+      const occluded = lastDistance !== null && lastDistance < OCCLUSION_DISTANCE;
+      const event = occluded ? fire(timestamp, peakSpeed(timestamp)) : null;
+      lastDistance = null;
+      if (!event && !occluded) armed = true;
+      return event;
+    }
+
+    const distance = twoHand.palmDistance;
+    if (lastDistance !== null && timestamp > lastTimestamp) {
+      // Closing speed is positive while the palms approach each other
+      const speed = (lastDistance - distance) / ((timestamp - lastTimestamp) / 1000);
+      speedSamples.push({ t: timestamp, speed });
+    }
+    lastDistance = distance;
+    lastTimestamp = timestamp;
+
+    if (distance > opts.releaseDistance) {
+      armed = true;
+      return null;
+    }
+
+    if (distance < opts.contactDistance) {
+      return fire(timestamp, peakSpeed(timestamp));
+    }
+
+    return null;
+  };
+
+  const reset = () => {
+    lastDistance = null;
+    speedSamples = [];
+    armed = true;
+  };
+
+  return { update, reset };
+};
+
+export type ClapDetector = ReturnType<typeof createClapDetector>;
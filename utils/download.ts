@@ -0,0 +1,19 @@
+// Save data as a file through a temporary link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadJson = (data: unknown, filename: string) => {
+  downloadBlob(new Blob([JSON.stringify(data)], { type: 'application/json' }), filename);
+};
+
+// Timestamp safe for filenames, e.g. 2024-05-01T12-30-00
+export const fileTimestamp = (date: Date = new Date()) => {
+  return date.toISOString().slice(0, 19).replace(/:/g, '-');
+};
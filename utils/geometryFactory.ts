@@ -1,136 +1,100 @@
-import { ShapeType, TRAIL_LENGTH } from '../types';
+import { DEFAULT_TEXT_SHAPE, ShapeId, ShapeType, TRAIL_LENGTH } from '../types';
+import { ShapeContext, getShape } from './shapeRegistry';
 
-export const generateGeometry = (type: ShapeType, count: number): Float32Array => {
-  const totalVertices = count * TRAIL_LENGTH;
-  const positions = new Float32Array(totalVertices * 3);
+const DEFAULT_SHAPE_CONTEXT: ShapeContext = { text: DEFAULT_TEXT_SHAPE };
 
-  const setPoint = (index: number, x: number, y: number, z: number) => {
-    // We replicate the same position for all trail segments of a single particle
-    // The shader handles the offset
-    for (let t = 0; t < TRAIL_LENGTH; t++) {
-      const i = (index * TRAIL_LENGTH + t) * 3;
-      positions[i] = x;
-      positions[i + 1] = y;
-      positions[i + 2] = z;
-    }
-  };
+// Unknown ids (e.g. a deleted import still named by a preset) fall back to the sphere
+const resolveShape = (type: ShapeId) => getShape(type) ?? getShape(ShapeType.SPHERE)!;
 
-  const randomPointInSphere = (radius: number) => {
-    const u = Math.random();
-    const v = Math.random();
-    const theta = 2 * Math.PI * u;
-    const phi = Math.acos(2 * v - 1);
-    // Avoid center - use minimum radius to keep particles on outer surface
-    const r = radius * (0.8 + Math.cbrt(Math.random()) * 0.2); // Min 0.8 * radius
-    return {
-      x: r * Math.sin(phi) * Math.cos(theta),
-      y: r * Math.sin(phi) * Math.sin(theta),
-      z: r * Math.cos(phi),
-    };
-  };
+// Per-particle rgb matching generateGeometry's points, or null when the
+// shape takes the uniform colour
+export const generateColors = (type: ShapeId, count: number): Float32Array | null => {
+  const color = resolveShape(type).attributes?.color;
+  if (!color) return null;
+
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) colors.set(color(i, count), i * 3);
+  return colors;
+};
+
+// One target point per particle; trails come from the simulation's position history.
+// Pass a seeded `random` (utils/random.ts) for reproducible output.
+export const generateGeometry = (
+  type: ShapeId,
+  count: number,
+  context: ShapeContext = DEFAULT_SHAPE_CONTEXT,
+  random: () => number = Math.random
+): Float32Array => {
+  const { sampler } = resolveShape(type);
+  const positions = new Float32Array(count * 3);
 
   const distanceFromCenter = (x: number, y: number, z: number) => {
     return Math.sqrt(x * x + y * y + z * z);
   };
 
   for (let i = 0; i < count; i++) {
-    let x = 0, y = 0, z = 0;
+    let p = { x: 0, y: 0, z: 0 };
     let attempts = 0;
     const maxAttempts = 10;
 
+    // Keep particles out of the centre
     do {
       attempts++;
-      switch (type) {
-        case ShapeType.SPHERE: {
-          const p = randomPointInSphere(2.5);
-          x = p.x; y = p.y; z = p.z;
-          break;
-        }
-        case ShapeType.HEART: {
-          const t = Math.random() * Math.PI * 2;
-          const r = Math.sqrt(Math.random());
-          const scale = 0.15;
-          x = scale * 16 * Math.pow(Math.sin(t), 3);
-          y = scale * (13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t));
-          z = (Math.random() - 0.5) * 2.0 * r; 
-          y += 0.5;
-          break;
-        }
-        case ShapeType.FLOWER: {
-          const scale = 0.1;
-          const goldenAngle = Math.PI * (3 - Math.sqrt(5));
-          const theta = i * goldenAngle;
-          const r = scale * Math.sqrt(i);
-          x = r * Math.cos(theta);
-          y = (Math.random() - 0.5) * 0.5;
-          z = r * Math.sin(theta);
-          y += Math.cos(r * 1.5) * 1.0 - 0.5;
-          break;
-        }
-        case ShapeType.SATURN: {
-          if (Math.random() > 0.4) {
-            const p = randomPointInSphere(1.2);
-            x = p.x; y = p.y; z = p.z;
-          } else {
-            const angle = Math.random() * Math.PI * 2;
-            const dist = 1.8 + Math.random() * 1.5;
-            x = Math.cos(angle) * dist;
-            z = Math.sin(angle) * dist;
-            y = (Math.random() - 0.5) * 0.1;
-            
-            const tilt = 0.4;
-            const tempY = y;
-            y = y * Math.cos(tilt) - z * Math.sin(tilt);
-            z = tempY * Math.sin(tilt) + z * Math.cos(tilt);
-          }
-          break;
-        }
-        case ShapeType.BUDDHA: {
-          const r = Math.random();
-          if (r < 0.25) {
-            const p = randomPointInSphere(0.6);
-            x = p.x; y = p.y + 1.2; z = p.z;
-          } else if (r < 0.65) {
-            const p = randomPointInSphere(1.0);
-            x = p.x * 1.1; y = p.y * 1.2; z = p.z * 0.9;
-          } else {
-            const angle = Math.random() * Math.PI * 2;
-            const dist = 1.0 + Math.random() * 0.8;
-            x = Math.cos(angle) * dist;
-            z = Math.sin(angle) * dist;
-            y = -1.2 + (Math.random() - 0.5) * 0.5;
-          }
-          break;
-        }
-        case ShapeType.FIREWORKS: {
-          const p = randomPointInSphere(0.2);
-          x = p.x * 10.0;
-          y = p.y * 10.0;
-          z = p.z * 10.0;
-          break;
-        }
-      }
-    } while (distanceFromCenter(x, y, z) < 0.3 && attempts < maxAttempts);
-    
-    setPoint(i, x, y, z);
+      p = sampler(i, count, random, context);
+    } while (distanceFromCenter(p.x, p.y, p.z) < 0.3 && attempts < maxAttempts);
+
+    positions[i * 3] = p.x;
+    positions[i * 3 + 1] = p.y;
+    positions[i * 3 + 2] = p.z;
   }
 
   return positions;
 };
 
-export const generateAttributes = (count: number) => {
+export const generateAttributes = (count: number, random: () => number = Math.random) => {
   const total = count * TRAIL_LENGTH;
   const trailIndices = new Float32Array(total);
   const scales = new Float32Array(total);
 
   for (let i = 0; i < count; i++) {
-    const scale = 0.5 + Math.random();
+    const scale = 0.5 + random();
     for (let t = 0; t < TRAIL_LENGTH; t++) {
       const idx = i * TRAIL_LENGTH + t;
-      trailIndices[idx] = t; // 0 to 4
+      trailIndices[idx] = t; // 0 (newest) to TRAIL_LENGTH - 1
       scales[idx] = scale;
     }
   }
 
   return { trailIndices, scales };
+};
+
+// Per-particle rgb repeated for every point vertex and every line vertex
+export const generateColorAttributes = (colors: Float32Array, count: number) => {
+  const lineVertices = (TRAIL_LENGTH - 1) * 2;
+  const pointColors = new Float32Array(count * TRAIL_LENGTH * 3);
+  const lineColors = new Float32Array(count * lineVertices * 3);
+
+  for (let i = 0; i < count; i++) {
+    const rgb = colors.subarray(i * 3, i * 3 + 3);
+    for (let t = 0; t < TRAIL_LENGTH; t++) pointColors.set(rgb, (i * TRAIL_LENGTH + t) * 3);
+    for (let v = 0; v < lineVertices; v++) lineColors.set(rgb, (i * lineVertices + v) * 3);
+  }
+
+  return { pointColors, lineColors };
+};
+
+// Trail index per vertex for line trails: segment k joins history samples k and k + 1
+export const generateLineAttributes = (count: number) => {
+  const segments = TRAIL_LENGTH - 1;
+  const trailIndices = new Float32Array(count * segments * 2);
+
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < segments; k++) {
+      const idx = (i * segments + k) * 2;
+      trailIndices[idx] = k;
+      trailIndices[idx + 1] = k + 1;
+    }
+  }
+
+  return { trailIndices };
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { AppAction, GestureBinding, GestureBindings, GestureType, MOTION_GESTURES, MotionGesture, PARTICLE_BEHAVIORS, ParticleBehavior } from '../types';
+
+// Matches the gestures' original hardwired behaviour
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  point: 'attract',
+  pinch: 'cluster',
+  palm_down: 'gravity',
+  peace: 'split_orbit',
+  swipe_left: 'prev_shape',
+  swipe_right: 'next_shape',
+  swipe_up: 'next_color',
+  swipe_down: 'prev_color',
+  circle_cw: 'spin_cw',
+  circle_ccw: 'spin_ccw',
+  push: 'burst',
+  pull: 'implode',
+};
+
+// Actions offered in the binding editor
+export const BINDABLE_ACTIONS: AppAction[] = [
+  'next_shape', 'prev_shape', 'next_color', 'prev_color',
+  'spin_cw', 'spin_ccw', 'burst', 'implode', 'snapshot',
+];
+
+export const BINDING_LABELS: Record<GestureBinding, string> = {
+  none: 'Nothing',
+  attract: 'Attract',
+  cluster: 'Cluster',
+  gravity: 'Gravity',
+  split_orbit: 'Split orbit',
+  repel: 'Repel',
+  vortex: 'Vortex',
+  next_shape: 'Next shape',
+  prev_shape: 'Previous shape',
+  next_color: 'Next colour',
+  prev_color: 'Previous colour',
+  spin_cw: 'Spin clockwise',
+  spin_ccw: 'Spin counter-clockwise',
+  burst: 'Burst',
+  implode: 'Implode',
+  snapshot: 'Snapshot',
+};
+
+export const isParticleBehavior = (binding: GestureBinding): binding is ParticleBehavior => {
+  return (PARTICLE_BEHAVIORS as readonly string[]).includes(binding);
+};
+
+export const isMotionGesture = (gesture: string): gesture is MotionGesture => {
+  return (MOTION_GESTURES as readonly string[]).includes(gesture);
+};
+
+// Behaviour while the gesture is held ('none' when it is bound to an action)
+export const behaviorFor = (bindings: GestureBindings, gesture: GestureType): ParticleBehavior => {
+  const binding = bindings[gesture] ?? 'none';
+  return isParticleBehavior(binding) ? binding : 'none';
+};
+
+// Action fired once when the gesture starts, or when a motion gesture
+// completes. Presets saved before motion gestures were bindable have no
+// entry for them and keep the default actions.
+export const actionFor = (bindings: GestureBindings, gesture: GestureType | MotionGesture): AppAction => {
+  const fallback = isMotionGesture(gesture) ? DEFAULT_GESTURE_BINDINGS[gesture] : undefined;
+  const binding = bindings[gesture] ?? fallback ?? 'none';
+  return isParticleBehavior(binding) ? 'none' : binding;
+};
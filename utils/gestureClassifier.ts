@@ -0,0 +1,217 @@
+import { BUILTIN_GESTURES, GestureType, Handedness, Vec3 } from '../types';
+import { Landmark, getPalmSize } from './handAnalysis';
+import { LandmarkFrame } from './inputSources';
+
+export interface GestureSample {
+  label: string;
+  features: number[];
+}
+
+// k-nearest-neighbour model; the raw samples are the model, so more
+// samples can be added and the model retrained later
+export interface GestureModel {
+  version: 1;
+  samples: GestureSample[];
+  mean: number[]; // Per-feature standardization
+  std: number[];
+  rejectDistance: number; // Nearest neighbour further than this -> unknown
+}
+
+export interface Classification {
+  label: string;
+  confidence: number; // Share of the k neighbours voting for the label
+}
+
+const STORAGE_KEY = 'particle-testing:gesture-model';
+const K = 5;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.sqrt(dot(v, v)) || 1;
+  return { x: v.x / len, y: v.y / len, z: v.z / len };
+};
+
+// Pose features independent of where the hand is, how big it appears and
+// how it is rotated: landmarks relative to the wrist, divided by palm size,
+// expressed in the hand's own frame (wrist -> middle base is "up", index
+// base -> pinky base is "across"). Left hands are mirrored onto right hands.
+export const extractFeatures = (landmarks: Landmark[], handedness: Handedness): number[] => {
+  const wrist = landmarks[0];
+  const scale = getPalmSize(landmarks) || 1;
+
+  const up = normalize(sub(landmarks[9], wrist));
+  const normal = normalize(cross(sub(landmarks[5], landmarks[17]), up));
+  const across = cross(up, normal);
+  const mirror = handedness === 'left' ? -1 : 1;
+
+  const features: number[] = [];
+  for (let i = 1; i < landmarks.length; i++) {
+    const p = sub(landmarks[i], wrist);
+    features.push(dot(p, across) / scale, dot(p, up) / scale, mirror * dot(p, normal) / scale);
+  }
+  return features;
+};
+
+const standardize = (features: number[], model: Pick<GestureModel, 'mean' | 'std'>) => {
+  return features.map((f, i) => (f - model.mean[i]) / model.std[i]);
+};
+
+const distance = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) * (a[i] - b[i]);
+  return Math.sqrt(sum);
+};
+
+export const trainModel = (samples: GestureSample[]): GestureModel => {
+  const labels = new Set(samples.map(s => s.label));
+  if (labels.size < 1 || samples.length < K) {
+    throw new Error(`Record at least ${K} samples to train.`);
+  }
+
+  const dims = samples[0].features.length;
+  const mean = new Array(dims).fill(0);
+  const std = new Array(dims).fill(0);
+  samples.forEach(s => s.features.forEach((f, i) => { mean[i] += f / samples.length; }));
+  samples.forEach(s => s.features.forEach((f, i) => { std[i] += (f - mean[i]) ** 2 / samples.length; }));
+  for (let i = 0; i < dims; i++) std[i] = Math.sqrt(std[i]) || 1;
+
+  const scaled = samples.map(s => ({ label: s.label, features: standardize(s.features, { mean, std }) }));
+
+  // Reject threshold: generous margin over the typical distance between a
+  // sample and its nearest same-label neighbour
+  const nearest = scaled.map((s, i) => scaled.reduce((best, o, j) => {
+    return j !== i && o.label === s.label ? Math.min(best, distance(s.features, o.features)) : best;
+  }, Infinity)).filter(Number.isFinite).sort((a, b) => a - b);
+  const typical = nearest.length ? nearest[Math.floor(nearest.length * 0.95)] ?? nearest[nearest.length - 1] : 1;
+
+  return { version: 1, samples, mean, std, rejectDistance: typical * 2.5 };
+};
+
+// Standardized samples, computed once per model
+const scaledSamples = new WeakMap<GestureModel, GestureSample[]>();
+
+export const classify = (model: GestureModel, features: number[]): Classification | null => {
+  let samples = scaledSamples.get(model);
+  if (!samples) {
+    samples = model.samples.map(s => ({ label: s.label, features: standardize(s.features, model) }));
+    scaledSamples.set(model, samples);
+  }
+
+  const query = standardize(features, model);
+  const neighbours = samples
+    .map(s => ({ label: s.label, d: distance(query, s.features) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, K);
+
+  if (neighbours.length === 0 || neighbours[0].d > model.rejectDistance) return null;
+
+  const votes = new Map<string, number>();
+  neighbours.forEach(n => votes.set(n.label, (votes.get(n.label) ?? 0) + 1));
+  const [label, count] = [...votes.entries()].sort((a, b) => b[1] - a[1])[0];
+  return { label, confidence: count / neighbours.length };
+};
+
+// Labels that name a built-in gesture drive it directly; anything else
+// becomes a custom gesture
+export const labelToGesture = (label: string): GestureType => {
+  return (BUILTIN_GESTURES as readonly string[]).includes(label) ? label as GestureType : `custom:${label}`;
+};
+
+// Classifier for analyzeHand: confident predictions win, otherwise the
+// built-in rules decide
+export const createModelGestureResolver = (model: GestureModel, minConfidence = 0.6) => {
+  return (landmarks: Landmark[], handedness: Handedness): GestureType | null => {
+    const result = classify(model, extractFeatures(landmarks, handedness));
+    return result && result.confidence >= minConfidence ? labelToGesture(result.label) : null;
+  };
+};
+
+export const loadGestureModel = (): GestureModel | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const model = JSON.parse(raw) as GestureModel;
+    return model.version === 1 && Array.isArray(model.samples) ? model : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveGestureModel = (model: GestureModel) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(model));
+};
+
+export const clearGestureModel = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Slack on top of the recording duration before a collector with no
+// frames gives up
+const FRAME_WAIT_MS = 1000;
+
+// Collects labelled samples from incoming frames for a fixed duration,
+// measured in frame timestamps so it works with any input source. If frames
+// stop coming (camera error, paused video) it gives up on the wall clock.
+export const createSampleCollector = (now: () => number = () => performance.now()) => {
+  let label: string | null = null;
+  let durationMs = 0;
+  let until: number | null = null; // Set on the first frame after start()
+  let giveUpAt = 0; // Wall-clock time, ms
+  let samples: GestureSample[] = [];
+
+  const start = (nextLabel: string, duration: number) => {
+    label = nextLabel;
+    durationMs = duration;
+    until = null;
+    giveUpAt = now() + duration + FRAME_WAIT_MS;
+    samples = [];
+  };
+
+  const stop = () => {
+    label = null;
+  };
+
+  const collect = (frame: LandmarkFrame) => {
+    if (!label) return;
+    if (now() > giveUpAt) {
+      label = null;
+      return;
+    }
+    if (until === null) until = frame.timestamp + durationMs;
+    if (frame.timestamp > until) {
+      label = null;
+      return;
+    }
+    const hand = frame.hands.find(h => h.handedness === 'right') ?? frame.hands[0];
+    if (hand) samples.push({ label, features: extractFeatures(hand.landmarks, hand.handedness) });
+  };
+
+  // Hand over the samples gathered so far
+  const take = () => {
+    const taken = samples;
+    samples = [];
+    return taken;
+  };
+
+  return {
+    start,
+    stop,
+    collect,
+    take,
+    get isCollecting() {
+      if (label !== null && now() > giveUpAt) label = null;
+      return label !== null;
+    },
+    get count() {
+      return samples.length;
+    },
+  };
+};
+
+export type SampleCollector = ReturnType<typeof createSampleCollector>;
@@ -0,0 +1,87 @@
+import { GestureType } from '../types';
+
+export interface GestureStabilizerOptions {
+  windowSize: number; // Number of recent frames used to measure confidence
+  enterThreshold: number; // Share of the window a gesture needs to become active
+  exitThreshold: number; // Active gesture is kept until its share drops below this
+  minHoldMs: number; // Minimum time a gesture stays active once entered
+  holdOverrides: Partial<Record<GestureType, number>>; // Per-gesture minimum hold
+}
+
+export const DEFAULT_STABILIZER_OPTIONS: GestureStabilizerOptions = {
+  windowSize: 6,
+  enterThreshold: 0.66,
+  exitThreshold: 0.34,
+  minHoldMs: 150,
+  holdOverrides: {
+    pinch: 250, // Pinch drives clustering - dropping it early looks like a glitch
+  },
+};
+
+// Gesture state machine: raw per-frame gestures go in, and the active
+// gesture only changes once the new one is confident enough (enter) and
+// the old one has faded (exit) after being held for its minimum time.
+export const createGestureStabilizer = (options: Partial<GestureStabilizerOptions> = {}) => {
+  const opts = { ...DEFAULT_STABILIZER_OPTIONS, ...options };
+
+  let history: GestureType[] = [];
+  let active: GestureType = 'none';
+  let activeSince = 0;
+
+  // Share of the whole window, so a hand that was just reacquired needs a
+  // run of frames before a gesture can enter
+  const confidence = (gesture: GestureType) => {
+    return history.filter(g => g === gesture).length / opts.windowSize;
+  };
+
+  const holdTime = (gesture: GestureType) => {
+    return opts.holdOverrides[gesture] ?? opts.minHoldMs;
+  };
+
+  const update = (raw: GestureType, timestamp: number): GestureType => {
+    history.push(raw);
+    if (history.length > opts.windowSize) history.shift();
+
+    // Hysteresis: an active gesture survives until it drops below exit
+    if (active !== 'none' && confidence(active) >= opts.exitThreshold) {
+      return active;
+    }
+    if (active !== 'none' && timestamp - activeSince < holdTime(active)) {
+      return active;
+    }
+
+    // Most frequent other gesture in the window, if confident enough
+    let candidate: GestureType = 'none';
+    let best = 0;
+    for (const g of new Set(history)) {
+      const c = confidence(g);
+      if (g !== active && g !== 'none' && c > best) {
+        candidate = g;
+        best = c;
+      }
+    }
+
+    const next = best >= opts.enterThreshold ? candidate : 'none';
+    if (next !== active) {
+      active = next;
+      activeSince = timestamp;
+    }
+    return active;
+  };
+
+  const reset = () => {
+    history = [];
+    active = 'none';
+    activeSince = 0;
+  };
+
+  return {
+    update,
+    reset,
+    get current() {
+      return active;
+    },
+  };
+};
+
+export type GestureStabilizer = ReturnType<typeof createGestureStabilizer>;
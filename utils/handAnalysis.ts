@@ -0,0 +1,315 @@
+import { CalibrationProfile, ClapEvent, DEFAULT_CALIBRATION, GestureType, HandData, Handedness, HandTrackingResult, MotionEvent, PalmOrientation, TwoHandSignals, Vec3 } from '../types';
+
+// MediaPipe landmark (normalized image coordinates, z relative to wrist)
+export type Landmark = Vec3;
+
+// Helper: distance between two 3D points
+export const distance3D = (p1: Vec3, p2: Vec3): number => {
+  return Math.sqrt(
+    Math.pow(p1.x - p2.x, 2) +
+    Math.pow(p1.y - p2.y, 2) +
+    Math.pow(p1.z - p2.z, 2)
+  );
+};
+
+// MediaPipe labels handedness assuming a mirrored (selfie) image.
+// Our webcam frames are not mirrored, so the labels are swapped.
+export const toHandedness = (categoryName: string | undefined): Handedness => {
+  return categoryName === 'Left' ? 'right' : 'left';
+};
+
+// Average wrist-to-fingertip distance, normalized by palm size
+export const getNormalizedSpread = (landmarks: Landmark[]): number => {
+  const wrist = landmarks[0];
+  const thumbTip = landmarks[4];
+  const indexTip = landmarks[8];
+  const middleTip = landmarks[12];
+  const ringTip = landmarks[16];
+  const pinkyTip = landmarks[20];
+
+  // Calculate distances from wrist to each fingertip
+  const distances = [thumbTip, indexTip, middleTip, ringTip, pinkyTip].map(tip => distance3D(wrist, tip));
+
+  const avgDistance = distances.reduce((a, b) => a + b, 0) / distances.length;
+
+  // Reference: palm size (wrist to middle finger base)
+  const palmSize = getPalmSize(landmarks);
+
+  // Normalize by palm size
+  return avgDistance / palmSize;
+};
+
+export const calculateTension = (landmarks: Landmark[], calibration: CalibrationProfile = DEFAULT_CALIBRATION): number => {
+  // Simple method: measure distance between fingertips
+  // When hand is open, fingers are far apart
+  // When hand is closed (fist), fingers are close together
+  const normalizedDist = getNormalizedSpread(landmarks);
+
+  // CALIBRATED MAPPING (defaults observed on one hand, see calibration wizard):
+  // Fist (closed): 0.80-0.86
+  // Open hand: 1.69-1.75
+  const { closedValue, openValue } = calibration;
+
+  // Map to 0 (open) to 1 (closed)
+  let tension = (openValue - normalizedDist) / (openValue - closedValue);
+  tension = Math.max(0, Math.min(1, tension));
+
+  return tension;
+};
+
+// Helper: check if finger is extended
+export const isFingerExtended = (
+  landmarks: Landmark[],
+  fingerBase: number,
+  fingerTip: number,
+  threshold: number = DEFAULT_CALIBRATION.extensionThreshold
+): boolean => {
+  const base = landmarks[fingerBase];
+  const tip = landmarks[fingerTip];
+  const dist = distance3D(base, tip);
+  return dist > threshold; // Default 0.04 - low for more sensitive detection
+};
+
+// Image coordinates -> the mirrored, y-up, z-toward-viewer space the user sees
+const toViewSpace = (p: Vec3): Vec3 => ({ x: -p.x, y: -p.y, z: -p.z });
+
+const normalize = (v: Vec3): Vec3 => {
+  const len = Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z) || 1;
+  return { x: v.x / len, y: v.y / len, z: v.z / len };
+};
+
+// Palm normal from the plane through the wrist, index base and pinky base.
+// Webcam frames are not mirrored, so for a right palm facing the camera the
+// index base sits at a larger image x than the pinky base and the cross
+// product points into the palm; it is flipped for right hands. Left hands
+// are mirror images and keep it as is.
+export const getPalmOrientation = (landmarks: Landmark[], handedness: Handedness): PalmOrientation => {
+  const wrist = toViewSpace(landmarks[0]);
+  const indexBase = toViewSpace(landmarks[5]);
+  const middleBase = toViewSpace(landmarks[9]);
+  const pinkyBase = toViewSpace(landmarks[17]);
+
+  const toIndex = { x: indexBase.x - wrist.x, y: indexBase.y - wrist.y, z: indexBase.z - wrist.z };
+  const toPinky = { x: pinkyBase.x - wrist.x, y: pinkyBase.y - wrist.y, z: pinkyBase.z - wrist.z };
+  const sign = handedness === 'right' ? -1 : 1;
+  const normal = normalize({
+    x: sign * (toIndex.y * toPinky.z - toIndex.z * toPinky.y),
+    y: sign * (toIndex.z * toPinky.x - toIndex.x * toPinky.z),
+    z: sign * (toIndex.x * toPinky.y - toIndex.y * toPinky.x),
+  });
+  const up = normalize({ x: middleBase.x - wrist.x, y: middleBase.y - wrist.y, z: middleBase.z - wrist.z });
+
+  return {
+    normal,
+    roll: Math.atan2(-up.x, up.y),
+    pitch: Math.asin(Math.max(-1, Math.min(1, normal.y))),
+    yaw: Math.atan2(normal.x, normal.z),
+  };
+};
+
+// Vertical component of the palm normal needed for palm up / palm down
+// (0.5 = tilted at least 30 degrees away from facing the screen)
+const PALM_FACING_THRESHOLD = 0.5;
+
+// Detect all gestures with simple, stable logic
+export const detectGesture = (
+  landmarks: Landmark[],
+  tension: number,
+  calibration: CalibrationProfile = DEFAULT_CALIBRATION,
+  handedness: Handedness = 'right'
+): GestureType => {
+  const thumbTip = landmarks[4];
+  const indexTip = landmarks[8];
+
+  // Check finger extensions
+  const threshold = calibration.extensionThreshold;
+  const thumbExt = isFingerExtended(landmarks, 2, 4, threshold);
+  const indexExt = isFingerExtended(landmarks, 5, 8, threshold);
+  const middleExt = isFingerExtended(landmarks, 9, 12, threshold);
+  const ringExt = isFingerExtended(landmarks, 13, 16, threshold);
+  const pinkyExt = isFingerExtended(landmarks, 17, 20, threshold);
+
+  // Count extended fingers
+  const extendedCount = [thumbExt, indexExt, middleExt, ringExt, pinkyExt].filter(e => e).length;
+
+  // 1. PEACE SIGN: exactly index + middle extended
+  if (indexExt && middleExt && !ringExt && !pinkyExt && tension < 0.5) {
+    return 'peace';
+  }
+
+  // 2. POINTING: only index extended (hand closed otherwise)
+  if (indexExt && !middleExt && !ringExt && !pinkyExt && tension > 0.4) {
+    return 'point';
+  }
+
+  // 3. PINCH: thumb and index close + hand mostly closed
+  const thumbIndexDist = distance3D(thumbTip, indexTip);
+  if (thumbIndexDist < 0.08 && tension > 0.6) {
+    return 'pinch';
+  }
+
+  // 4. PALM UP/DOWN: most fingers extended + palm normal facing up or down
+  if (extendedCount >= 4 && tension < 0.3) {
+    const { normal } = getPalmOrientation(landmarks, handedness);
+
+    if (normal.y > PALM_FACING_THRESHOLD) {
+      return 'palm_up';
+    } else if (normal.y < -PALM_FACING_THRESHOLD) {
+      return 'palm_down';
+    }
+  }
+
+  return 'none';
+};
+
+// Get position data for specific gestures
+export const getGesturePositions = (landmarks: Landmark[], gesture: GestureType) => {
+  const result: Partial<HandData> = {};
+
+  if (gesture === 'point') {
+    // Index fingertip
+    result.fingerTip = landmarks[8];
+  } else if (gesture === 'pinch') {
+    // Average of thumb and index
+    const thumb = landmarks[4];
+    const index = landmarks[8];
+    result.pinchPosition = {
+      x: (thumb.x + index.x) / 2,
+      y: (thumb.y + index.y) / 2,
+      z: (thumb.z + index.z) / 2,
+    };
+  } else if (gesture === 'peace') {
+    // Index and middle finger positions
+    result.peaceOrbit1 = landmarks[8];
+    result.peaceOrbit2 = landmarks[12];
+  }
+
+  return result;
+};
+
+// Palm size reference: wrist to middle finger base
+export const getPalmSize = (landmarks: Landmark[]): number => {
+  return distance3D(landmarks[0], landmarks[9]);
+};
+
+// Palm center: average of the wrist and the four finger bases
+export const getPalmCenter = (landmarks: Landmark[]): Vec3 => {
+  const points = [0, 5, 9, 13, 17].map(i => landmarks[i]);
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    z: points.reduce((sum, p) => sum + p.z, 0) / points.length,
+  };
+};
+
+export interface AnalyzeHandOptions {
+  calibration?: CalibrationProfile;
+  // Trained classifier; returns null when unsure so the built-in rules decide
+  classifyGesture?: (landmarks: Landmark[], handedness: Handedness) => GestureType | null;
+  // Filter for the raw per-frame gesture (e.g. a stabilizer)
+  resolveGesture?: (raw: GestureType) => GestureType;
+}
+
+// Full per-hand analysis for one set of landmarks
+export const analyzeHand = (
+  landmarks: Landmark[],
+  handedness: Handedness,
+  { calibration = DEFAULT_CALIBRATION, classifyGesture, resolveGesture = raw => raw }: AnalyzeHandOptions = {}
+): HandData => {
+  const tension = calculateTension(landmarks, calibration);
+  const raw = classifyGesture?.(landmarks, handedness) ?? detectGesture(landmarks, tension, calibration, handedness);
+  const gesture = resolveGesture(raw);
+
+  return {
+    handedness,
+    tension,
+    gesture,
+    palmCenter: getPalmCenter(landmarks),
+    palmOrientation: getPalmOrientation(landmarks, handedness),
+    ...getGesturePositions(landmarks, gesture),
+  };
+};
+
+// Palm distance (in palm-size units) mapped to stretch 0-1
+const STRETCH_MIN_DISTANCE = 1.5; // Palms touching
+const STRETCH_MAX_DISTANCE = 8.0; // Arms spread across the frame
+
+// Derive two-hand signals. Landmarks are only used for scale, so palms
+// from different hands are compared in the image plane (MediaPipe z is
+// relative to each wrist and not comparable across hands).
+export const computeTwoHandSignals = (
+  left: { landmarks: Landmark[]; hand: HandData },
+  right: { landmarks: Landmark[]; hand: HandData }
+): TwoHandSignals => {
+  const l = left.hand.palmCenter;
+  const r = right.hand.palmCenter;
+
+  const palmSize = (getPalmSize(left.landmarks) + getPalmSize(right.landmarks)) / 2;
+  const imageDistance = Math.sqrt(Math.pow(l.x - r.x, 2) + Math.pow(l.y - r.y, 2));
+  const palmDistance = imageDistance / Math.max(palmSize, 1e-4);
+
+  // Angle of the left->right palm line as the user sees it (image is
+  // mirrored for display, y grows downward): 0 when level, positive
+  // when the right hand is raised - like turning a steering wheel.
+  const relativeRotation = Math.atan2(l.y - r.y, l.x - r.x);
+
+  let stretch = (palmDistance - STRETCH_MIN_DISTANCE) / (STRETCH_MAX_DISTANCE - STRETCH_MIN_DISTANCE);
+  stretch = Math.max(0, Math.min(1, stretch));
+
+  return {
+    palmDistance,
+    relativeRotation,
+    stretch,
+    midpoint: {
+      x: (l.x + r.x) / 2,
+      y: (l.y + r.y) / 2,
+      z: (l.z + r.z) / 2,
+    },
+  };
+};
+
+// One-off events and two-hand signals for the current frame
+export interface FrameSignals {
+  twoHand?: TwoHandSignals;
+  clap?: ClapEvent | null;
+  motion?: MotionEvent | null;
+}
+
+// The hand that drives single-hand behaviour: the right hand when visible
+export const getPrimaryHand = (hands: HandData[]): HandData | undefined => {
+  return hands.find(h => h.handedness === 'right') ?? hands[0];
+};
+
+// Combine per-hand data into the result consumed by the particle system.
+// A clap overrides the primary gesture for the frame it lands on.
+export const buildTrackingResult = (
+  hands: HandData[],
+  { twoHand, clap, motion }: FrameSignals = {}
+): HandTrackingResult => {
+  const events = {
+    ...(clap ? { clap } : {}),
+    ...(motion ? { motion } : {}),
+  };
+
+  if (hands.length === 0) {
+    return {
+      isDetected: false,
+      tension: 0,
+      gesture: clap ? 'clap' : 'none',
+      hands: [],
+      ...events,
+    };
+  }
+
+  const primary = getPrimaryHand(hands)!;
+  const { handedness, palmCenter, ...primaryData } = primary;
+
+  return {
+    isDetected: true,
+    ...primaryData,
+    ...(clap ? { gesture: 'clap' as const } : {}),
+    hands,
+    twoHand,
+    ...events,
+  };
+};
@@ -0,0 +1,104 @@
+import { ImportedShape } from './shapeStore';
+
+export const IMAGE_FILE_ACCEPT = '.png,.jpg,.jpeg,.svg';
+
+export interface ImageImportOptions {
+  depth: number; // World units brightness pushes particles toward the viewer, 0 = flat
+}
+
+export const DEFAULT_IMAGE_IMPORT_OPTIONS: ImageImportOptions = {
+  depth: 0,
+};
+
+const SAMPLE_SIZE = 256; // Longer side of the canvas the image is sampled on
+const SVG_FALLBACK_SIZE = 512; // For SVGs without a width/height
+const TARGET_EXTENT = 5; // World width/height of the longer side, like the built-in shapes
+const WEIGHT_THRESHOLD = 0.5; // Minimum alpha (or luminance) for a pixel to get particles
+const FLAT_JITTER = 0.05; // Depth noise so flat images don't z-fight
+
+const loadImage = async (file: File): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } catch {
+    throw new Error(`Could not decode "${file.name}" - use a PNG, JPG or SVG file.`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Load a PNG / JPG / SVG and sample `count` particles from its bright or
+// opaque pixels. Images with transparency are sampled by alpha (logos on a
+// clear background), opaque ones by luminance. Each particle keeps the
+// colour of the pixel it came from.
+export const importImageShape = async (
+  file: File,
+  count: number,
+  { depth }: ImageImportOptions = DEFAULT_IMAGE_IMPORT_OPTIONS
+): Promise<ImportedShape> => {
+  const image = await loadImage(file);
+  const naturalWidth = image.naturalWidth || SVG_FALLBACK_SIZE;
+  const naturalHeight = image.naturalHeight || SVG_FALLBACK_SIZE;
+  const fit = SAMPLE_SIZE / Math.max(naturalWidth, naturalHeight);
+  const width = Math.max(1, Math.round(naturalWidth * fit));
+  const height = Math.max(1, Math.round(naturalHeight * fit));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D is not available.');
+  ctx.drawImage(image, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const pixelCount = width * height;
+  let hasTransparency = false;
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < 250) {
+      hasTransparency = true;
+      break;
+    }
+  }
+
+  const luminance = (i: number) => {
+    return (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+  };
+
+  const candidates: number[] = [];
+  for (let i = 0; i < pixelCount; i++) {
+    const weight = hasTransparency ? data[i * 4 + 3] / 255 : luminance(i);
+    if (weight >= WEIGHT_THRESHOLD) candidates.push(i);
+  }
+  if (candidates.length === 0) {
+    throw new Error('The image has no bright or opaque areas to sample.');
+  }
+
+  const scale = TARGET_EXTENT / Math.max(width, height);
+  const points = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const pixel = candidates[Math.floor(Math.random() * candidates.length)];
+    const px = (pixel % width) + Math.random();
+    const py = Math.floor(pixel / width) + Math.random();
+    points[i * 3] = (px - width / 2) * scale;
+    points[i * 3 + 1] = (height / 2 - py) * scale;
+    points[i * 3 + 2] = depth > 0
+      ? (luminance(pixel) - 0.5) * depth
+      : (Math.random() - 0.5) * FLAT_JITTER;
+
+    colors[i * 3] = data[pixel * 4] / 255;
+    colors[i * 3 + 1] = data[pixel * 4 + 1] / 255;
+    colors[i * 3 + 2] = data[pixel * 4 + 2] / 255;
+  }
+
+  return {
+    id: `image:${crypto.randomUUID()}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    points,
+    colors,
+    createdAt: Date.now(),
+  };
+};
@@ -0,0 +1,247 @@
+import { HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { Handedness } from '../types';
+import { Landmark, toHandedness } from './handAnalysis';
+
+// One hand's raw landmarks, before smoothing or analysis
+export interface RawHand {
+  handedness: Handedness;
+  landmarks: Landmark[];
+  score?: number; // Handedness confidence, 0-1; missing in older recordings
+}
+
+// One input frame; timestamp in ms, monotonically increasing per source
+export interface LandmarkFrame {
+  timestamp: number;
+  hands: RawHand[];
+}
+
+// JSON landmark recording: frames replayed without MediaPipe.
+// Version 2 is a full session recording (utils/sessionRecorder.ts) whose
+// frames also carry results - only the landmarks are used here.
+export interface LandmarkRecording {
+  version: 1 | 2;
+  frames: LandmarkFrame[];
+}
+
+export type InputSourceKind = 'webcam' | 'video' | 'recording';
+
+export type InputSourceConfig =
+  | { kind: 'webcam' }
+  // Local video file (object URL) or any same-origin video URL
+  | { kind: 'video'; url: string; loop?: boolean }
+  // LandmarkRecording JSON (object URL or path)
+  | { kind: 'recording'; url: string; loop?: boolean };
+
+export interface InputSource {
+  kind: InputSourceKind;
+  start: (onFrame: (frame: LandmarkFrame) => void) => Promise<void>;
+  stop: () => void; // Also cancels a start() still loading; a stopped source is not restarted
+  // Max detections per second (0 = every new video frame); recordings replay at their own rate
+  setInferenceRate: (fps: number) => void;
+}
+
+// Runs MediaPipe on the current video frame
+export type VideoDetector = (video: HTMLVideoElement, timestamp: number) => HandLandmarkerResult;
+
+export const DEFAULT_INPUT_SOURCE: InputSourceConfig = { kind: 'webcam' };
+
+// Recordings skip MediaPipe entirely
+export const needsDetector = (config: InputSourceConfig) => config.kind !== 'recording';
+
+export const frameFromDetections = (result: HandLandmarkerResult, timestamp: number): LandmarkFrame => ({
+  timestamp,
+  hands: (result.landmarks ?? []).map((landmarks, i) => ({
+    handedness: toHandedness(result.handedness?.[i]?.[0]?.categoryName),
+    landmarks: landmarks.map(({ x, y, z }) => ({ x, y, z })),
+    score: result.handedness?.[i]?.[0]?.score,
+  })),
+});
+
+// MediaPipe sometimes labels both hands alike (often when they cross).
+// Per-hand filters are keyed by handedness, so only the more confident
+// detection of each label is kept; ties keep the first.
+export const uniqueHandedness = (hands: RawHand[]): RawHand[] => {
+  return hands.filter((hand, i) => !hands.some((other, j) => (
+    j !== i
+    && other.handedness === hand.handedness
+    && ((other.score ?? 0) > (hand.score ?? 0) || ((other.score ?? 0) === (hand.score ?? 0) && j < i))
+  )));
+};
+
+export const parseLandmarkRecording = (json: unknown): LandmarkRecording => {
+  const data = json as Partial<LandmarkRecording>;
+  if (!data || (data.version !== 1 && data.version !== 2) || !Array.isArray(data.frames)) {
+    throw new Error('Not a landmark recording (expected version 1 or 2 with frames).');
+  }
+  return data as LandmarkRecording;
+};
+
+// Webcam and video files share one loop: detectForVideo on each new frame
+const createVideoSource = (
+  config: Exclude<InputSourceConfig, { kind: 'recording' }>,
+  video: HTMLVideoElement,
+  detect: VideoDetector
+): InputSource => {
+  let animationFrame: number | null = null;
+  let stream: MediaStream | null = null;
+  // Set by stop(); a start() still waiting on the camera or the file gives up
+  let stopped = false;
+  let cancelLoad: (() => void) | null = null;
+  let lastVideoTime = -1;
+  let minInterval = 0; // ms between detections
+  let lastDetection = -Infinity;
+  // Video files use media time so replays of the same file are reproducible;
+  // each loop adds the file duration to keep timestamps increasing
+  let loopOffset = 0;
+
+  const loop = (onFrame: (frame: LandmarkFrame) => void) => {
+    const now = performance.now();
+    if (video.currentTime !== lastVideoTime && now - lastDetection >= minInterval) {
+      lastDetection = now;
+      if (config.kind === 'video' && video.currentTime < lastVideoTime) {
+        loopOffset += video.duration * 1000;
+      }
+      lastVideoTime = video.currentTime;
+      const timestamp = config.kind === 'video'
+        ? loopOffset + video.currentTime * 1000
+        : performance.now();
+      onFrame(frameFromDetections(detect(video, timestamp), timestamp));
+    }
+    animationFrame = requestAnimationFrame(() => loop(onFrame));
+  };
+
+  const start = async (onFrame: (frame: LandmarkFrame) => void) => {
+    if (config.kind === 'webcam') {
+      let granted: MediaStream;
+      try {
+        // Optimized video constraints for better performance
+        granted = await navigator.mediaDevices.getUserMedia({
+          video: {
+            width: { ideal: 240 },
+            height: { ideal: 180 },
+            facingMode: 'user'
+          }
+        });
+      } catch (err) {
+        if (stopped) return;
+        console.error(err);
+        throw new Error('Camera access denied.');
+      }
+      if (stopped) {
+        granted.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = granted;
+      video.srcObject = stream;
+    } else {
+      video.srcObject = null;
+      video.src = config.url;
+      video.loop = config.loop ?? true;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      if (video.readyState >= 2) return resolve();
+      cancelLoad = resolve;
+      video.addEventListener('loadeddata', () => resolve(), { once: true });
+      video.addEventListener('error', () => reject(new Error('Could not play video file.')), { once: true });
+    });
+    cancelLoad = null;
+    if (stopped) return;
+    await video.play().catch(() => undefined); // Autoplay may be blocked; frames still decode
+    if (stopped) return;
+    loop(onFrame);
+  };
+
+  const stop = () => {
+    stopped = true;
+    cancelLoad?.();
+    cancelLoad = null;
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+    animationFrame = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    video.pause();
+    video.removeAttribute('src');
+    video.srcObject = null;
+  };
+
+  const setInferenceRate = (fps: number) => {
+    minInterval = fps > 0 ? 1000 / fps : 0;
+  };
+
+  return { kind: config.kind, start, stop, setInferenceRate };
+};
+
+// Replays recorded frames at their original timing. Every frame is emitted
+// exactly once and in order, so downstream filters behave deterministically
+// regardless of the display refresh rate.
+const createRecordingSource = (config: Extract<InputSourceConfig, { kind: 'recording' }>): InputSource => {
+  let animationFrame: number | null = null;
+  let stopped = false; // Set by stop(); a start() still fetching gives up
+
+  const start = async (onFrame: (frame: LandmarkFrame) => void) => {
+    let recording: LandmarkRecording;
+    try {
+      const response = await fetch(config.url);
+      recording = parseLandmarkRecording(await response.json());
+    } catch (err) {
+      if (stopped) return;
+      console.error(err);
+      throw new Error('Invalid landmark recording.');
+    }
+    if (stopped || recording.frames.length === 0) return;
+
+    const first = recording.frames[0].timestamp;
+    const duration = recording.frames[recording.frames.length - 1].timestamp - first;
+    const startTime = performance.now();
+    let next = 0;
+    let loopOffset = 0;
+
+    const tick = () => {
+      const elapsed = performance.now() - startTime;
+      while (next < recording.frames.length && recording.frames[next].timestamp - first + loopOffset <= elapsed) {
+        const frame = recording.frames[next];
+        onFrame({ ...frame, timestamp: frame.timestamp - first + loopOffset });
+        next++;
+      }
+      if (next >= recording.frames.length) {
+        if (!(config.loop ?? true)) return;
+        // Small gap so the last and first frames do not share a timestamp
+        loopOffset += duration + 1000 / 30;
+        next = 0;
+      }
+      animationFrame = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+    animationFrame = null;
+  };
+
+  return { kind: 'recording', start, stop, setInferenceRate: () => {} };
+};
+
+export const createInputSource = (
+  config: InputSourceConfig,
+  video: HTMLVideoElement,
+  detect: VideoDetector
+): InputSource => {
+  return config.kind === 'recording'
+    ? createRecordingSource(config)
+    : createVideoSource(config, video, detect);
+};
+
+// Input source from the URL, e.g. ?input=recording&src=/fixtures/peace.json
+// - lets headless CI runs replay gestures without a camera
+export const inputSourceFromQuery = (search: string = window.location.search): InputSourceConfig | null => {
+  const params = new URLSearchParams(search);
+  const kind = params.get('input');
+  const url = params.get('src');
+  if ((kind === 'video' || kind === 'recording') && url) {
+    return { kind, url, loop: params.get('loop') !== '0' };
+  }
+  return kind === 'webcam' ? { kind } : null;
+};
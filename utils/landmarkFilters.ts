@@ -0,0 +1,134 @@
+import { Landmark } from './handAnalysis';
+
+export type SmoothingKind = 'none' | 'oneEuro' | 'exponential' | 'kalman';
+
+export interface SmoothingOptions {
+  kind: SmoothingKind;
+  // One Euro: cutoff (Hz) at rest, and how fast it opens up with speed
+  minCutoff: number;
+  beta: number;
+  derivativeCutoff: number;
+  // Exponential: weight of the newest sample (0-1)
+  alpha: number;
+  // Kalman: trust in the motion model vs. the measurement
+  processNoise: number;
+  measurementNoise: number;
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  kind: 'oneEuro',
+  minCutoff: 1.2,
+  beta: 8.0, // Landmarks are normalized (0-1), so speeds are small numbers
+  derivativeCutoff: 1.0,
+  alpha: 0.5,
+  processNoise: 0.01,
+  measurementNoise: 0.0005,
+};
+
+// Single-value filter; timestamps are in seconds
+type ScalarFilter = (value: number, t: number) => number;
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+const createOneEuroFilter = (opts: SmoothingOptions): ScalarFilter => {
+  let prevValue: number | null = null;
+  let prevDerivative = 0;
+  let prevTime = 0;
+
+  return (value, t) => {
+    if (prevValue === null || t <= prevTime) {
+      prevValue = value;
+      prevTime = t;
+      return value;
+    }
+
+    const dt = t - prevTime;
+    const aDerivative = smoothingFactor(opts.derivativeCutoff, dt);
+    const derivative = (value - prevValue) / dt;
+    const smoothedDerivative = prevDerivative + aDerivative * (derivative - prevDerivative);
+
+    // Faster motion -> higher cutoff -> less lag; slow motion -> less jitter
+    const cutoff = opts.minCutoff + opts.beta * Math.abs(smoothedDerivative);
+    const a = smoothingFactor(cutoff, dt);
+    const smoothed = prevValue + a * (value - prevValue);
+
+    prevValue = smoothed;
+    prevDerivative = smoothedDerivative;
+    prevTime = t;
+    return smoothed;
+  };
+};
+
+const createExponentialFilter = (opts: SmoothingOptions): ScalarFilter => {
+  let prevValue: number | null = null;
+
+  return value => {
+    prevValue = prevValue === null ? value : prevValue + opts.alpha * (value - prevValue);
+    return prevValue;
+  };
+};
+
+// Constant-position Kalman filter; process noise grows with elapsed time
+const createKalmanFilter = (opts: SmoothingOptions): ScalarFilter => {
+  let estimate: number | null = null;
+  let errorCovariance = 1;
+  let prevTime = 0;
+
+  return (value, t) => {
+    if (estimate === null) {
+      estimate = value;
+      errorCovariance = opts.measurementNoise;
+      prevTime = t;
+      return value;
+    }
+
+    const dt = Math.max(t - prevTime, 1e-3);
+    errorCovariance += opts.processNoise * dt;
+    const gain = errorCovariance / (errorCovariance + opts.measurementNoise);
+    estimate += gain * (value - estimate);
+    errorCovariance *= 1 - gain;
+    prevTime = t;
+    return estimate;
+  };
+};
+
+const createScalarFilter = (opts: SmoothingOptions): ScalarFilter => {
+  switch (opts.kind) {
+    case 'oneEuro': return createOneEuroFilter(opts);
+    case 'exponential': return createExponentialFilter(opts);
+    case 'kalman': return createKalmanFilter(opts);
+    default: return value => value;
+  }
+};
+
+// Smooths all 21 landmarks of one hand, coordinate by coordinate.
+// Call reset() when the hand is lost so it does not glide in from its
+// last known position when it is found again.
+export const createLandmarkSmoother = (options: Partial<SmoothingOptions> = {}) => {
+  const opts = { ...DEFAULT_SMOOTHING_OPTIONS, ...options };
+  let filters: ScalarFilter[][] = [];
+
+  const filter = (landmarks: Landmark[], timestampMs: number): Landmark[] => {
+    if (opts.kind === 'none') return landmarks;
+
+    const t = timestampMs / 1000;
+    return landmarks.map((lm, i) => {
+      if (!filters[i]) {
+        filters[i] = [createScalarFilter(opts), createScalarFilter(opts), createScalarFilter(opts)];
+      }
+      const [fx, fy, fz] = filters[i];
+      return { x: fx(lm.x, t), y: fy(lm.y, t), z: fz(lm.z, t) };
+    });
+  };
+
+  const reset = () => {
+    filters = [];
+  };
+
+  return { filter, reset };
+};
+
+export type LandmarkSmoother = ReturnType<typeof createLandmarkSmoother>;
@@ -0,0 +1,32 @@
+// Locations of the self-hosted MediaPipe WASM fileset and hand model.
+// Served from /mediapipe by default; set VITE_MEDIAPIPE_ASSET_BASE to point
+// at another folder or host (e.g. a shared asset server on the exhibition LAN).
+export const MEDIAPIPE_ASSET_BASE: string = (
+  import.meta.env.VITE_MEDIAPIPE_ASSET_BASE || `${import.meta.env.BASE_URL}mediapipe`
+).replace(/\/$/, '');
+
+export interface MediaPipeAssets {
+  wasmPath: string;
+  modelPath: string;
+}
+
+// Resolve asset paths and verify the hosted WASM matches the JS bundle -
+// a mismatched fileset fails deep inside MediaPipe with an unhelpful error.
+export const resolveMediaPipeAssets = async (base: string = MEDIAPIPE_ASSET_BASE): Promise<MediaPipeAssets> => {
+  const response = await fetch(`${base}/manifest.json`);
+  if (!response.ok) {
+    throw new Error(`MediaPipe assets not found at ${base}.`);
+  }
+
+  const manifest: { version?: string } = await response.json();
+  if (manifest.version !== __MEDIAPIPE_VERSION__) {
+    throw new Error(
+      `MediaPipe assets are v${manifest.version ?? 'unknown'}, app expects v${__MEDIAPIPE_VERSION__}.`
+    );
+  }
+
+  return {
+    wasmPath: `${base}/wasm`,
+    modelPath: `${base}/hand_landmarker.task`,
+  };
+};
@@ -0,0 +1,146 @@
+import * as THREE from 'three';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { ImportedShape } from './shapeStore';
+
+export const MESH_FILE_ACCEPT = '.obj,.ply,.gltf,.glb';
+
+// Radius imported shapes are scaled to, matching the built-in sphere
+const TARGET_RADIUS = 2.5;
+
+// Parse a local file into a scene graph. glTF must be self-contained
+// (.glb or .gltf with embedded buffers) since sibling files aren't available.
+const parseMeshFile = async (file: File): Promise<THREE.Object3D> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'obj':
+      return new OBJLoader().parse(await file.text());
+    case 'ply': {
+      // PLY files without faces are point clouds (e.g. scans)
+      const geometry = new PLYLoader().parse(await file.arrayBuffer());
+      return geometry.index ? new THREE.Mesh(geometry) : new THREE.Points(geometry);
+    }
+    case 'gltf':
+    case 'glb': {
+      const gltf = await new GLTFLoader().parseAsync(await file.arrayBuffer(), '');
+      return gltf.scene;
+    }
+    default:
+      throw new Error(`Unsupported file type ".${extension ?? ''}" - use OBJ, PLY or glTF.`);
+  }
+};
+
+// World-space triangles (9 floats each) and loose points (3 floats each)
+const collectGeometry = (root: THREE.Object3D) => {
+  const triangles: number[] = [];
+  const points: number[] = [];
+  const v = new THREE.Vector3();
+  root.updateMatrixWorld(true);
+
+  root.traverse(object => {
+    const mesh = object as THREE.Mesh;
+    const geometry = mesh.geometry as THREE.BufferGeometry | undefined;
+    const position = geometry?.attributes.position;
+    if (!geometry || !position) return;
+
+    const push = (target: number[], i: number) => {
+      v.fromBufferAttribute(position, i).applyMatrix4(object.matrixWorld);
+      target.push(v.x, v.y, v.z);
+    };
+
+    if ((object as THREE.Points).isPoints) {
+      for (let i = 0; i < position.count; i++) push(points, i);
+    } else if (mesh.isMesh) {
+      const index = geometry.index;
+      const vertexCount = index ? index.count : position.count;
+      for (let i = 0; i + 2 < vertexCount; i += 3) {
+        for (let k = 0; k < 3; k++) push(triangles, index ? index.getX(i + k) : i + k);
+      }
+    }
+  });
+
+  return { triangles, points };
+};
+
+// Area-weighted surface sampling: triangles are picked in proportion to
+// their area, then a uniform point inside the picked triangle
+const sampleTriangles = (triangles: number[], count: number): Float32Array => {
+  const triangleCount = triangles.length / 9;
+  const cumulative = new Float64Array(triangleCount);
+  const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+  let total = 0;
+  for (let t = 0; t < triangleCount; t++) {
+    a.fromArray(triangles, t * 9);
+    b.fromArray(triangles, t * 9 + 3);
+    c.fromArray(triangles, t * 9 + 6);
+    total += b.sub(a).cross(c.sub(a)).length() / 2;
+    cumulative[t] = total;
+  }
+  if (total <= 0) throw new Error('The mesh has no surface area to sample.');
+
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    // Binary search for the triangle covering this share of the total area
+    const r = Math.random() * total;
+    let lo = 0, hi = triangleCount - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (cumulative[mid] < r) lo = mid + 1;
+      else hi = mid;
+    }
+
+    // Uniform barycentric coordinates (square-root trick)
+    const s = Math.sqrt(Math.random());
+    const u = 1 - s;
+    const w = Math.random() * s;
+    const bw = s - w;
+    for (let k = 0; k < 3; k++) {
+      out[i * 3 + k] = triangles[lo * 9 + k] * u + triangles[lo * 9 + 3 + k] * bw + triangles[lo * 9 + 6 + k] * w;
+    }
+  }
+  return out;
+};
+
+const samplePoints = (points: number[], count: number): Float32Array => {
+  const pointCount = points.length / 3;
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const j = Math.floor(Math.random() * pointCount);
+    out.set(points.slice(j * 3, j * 3 + 3), i * 3);
+  }
+  return out;
+};
+
+// Center on the bounding box and scale so the farthest point sits at TARGET_RADIUS
+const normalizePoints = (points: Float32Array) => {
+  const box = new THREE.Box3().setFromArray(points);
+  const center = box.getCenter(new THREE.Vector3());
+  let maxRadius = 0;
+  for (let i = 0; i < points.length; i += 3) {
+    points[i] -= center.x;
+    points[i + 1] -= center.y;
+    points[i + 2] -= center.z;
+    maxRadius = Math.max(maxRadius, Math.hypot(points[i], points[i + 1], points[i + 2]));
+  }
+  const scale = maxRadius > 0 ? TARGET_RADIUS / maxRadius : 1;
+  for (let i = 0; i < points.length; i++) points[i] *= scale;
+  return points;
+};
+
+// Load an OBJ / PLY / glTF file and sample exactly `count` surface points
+export const importMeshShape = async (file: File, count: number): Promise<ImportedShape> => {
+  const { triangles, points } = collectGeometry(await parseMeshFile(file));
+  if (triangles.length === 0 && points.length === 0) {
+    throw new Error('No geometry found in the file.');
+  }
+
+  const sampled = triangles.length > 0 ? sampleTriangles(triangles, count) : samplePoints(points, count);
+
+  return {
+    id: `mesh:${crypto.randomUUID()}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    points: normalizePoints(sampled),
+    createdAt: Date.now(),
+  };
+};
@@ -0,0 +1,136 @@
+// Greedy nearest-point matching between two point clouds, so each particle
+// morphs to a nearby point of the new shape instead of crossing the scene.
+
+const GRID_OFFSET = 512; // Cell coordinates are clamped to +-511 for packing
+const MAX_SHELLS = 6; // Beyond this, fall back to scanning every unused point
+
+const cellOf = (v: number, cellSize: number) => {
+  return Math.max(-GRID_OFFSET + 1, Math.min(GRID_OFFSET - 1, Math.floor(v / cellSize)));
+};
+
+const packCell = (x: number, y: number, z: number) => {
+  return ((x + GRID_OFFSET) * 1024 + (y + GRID_OFFSET)) * 1024 + (z + GRID_OFFSET);
+};
+
+// Cell size giving a couple of points per occupied cell
+const autoCellSize = (points: Float32Array, count: number) => {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count * 3; i++) {
+    min[i % 3] = Math.min(min[i % 3], points[i]);
+    max[i % 3] = Math.max(max[i % 3], points[i]);
+  }
+  const volume = max.reduce((v, hi, axis) => v * Math.max(hi - min[axis], 0.01), 1);
+  return Math.cbrt(volume / Math.max(count, 1)) * 1.5;
+};
+
+// Order in which to take the points of `to` (xyz triples) so that
+// to[order[i]] lies close to from[i]. Points of `to` are bucketed in a
+// uniform grid; each `from` point, in random order so no region always
+// picks last, takes the nearest unused point found by searching shells of
+// cells outward from its own.
+export const pairNearestOrder = (
+  from: Float32Array,
+  to: Float32Array,
+  random: () => number = Math.random
+): Uint32Array => {
+  const count = Math.min(from.length, to.length) / 3;
+  const cellSize = autoCellSize(to, count);
+  const result = new Uint32Array(to.length / 3);
+  result.forEach((_, i) => { result[i] = i; }); // Any points beyond `from` keep their place
+
+  const cells = new Map<number, number[]>();
+  for (let j = 0; j < count; j++) {
+    const key = packCell(cellOf(to[j * 3], cellSize), cellOf(to[j * 3 + 1], cellSize), cellOf(to[j * 3 + 2], cellSize));
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(j);
+    else cells.set(key, [j]);
+  }
+
+  const used = new Uint8Array(count);
+  const distanceSq = (i: number, j: number) => {
+    const dx = from[i * 3] - to[j * 3];
+    const dy = from[i * 3 + 1] - to[j * 3 + 1];
+    const dz = from[i * 3 + 2] - to[j * 3 + 2];
+    return dx * dx + dy * dy + dz * dz;
+  };
+
+  // Fisher-Yates shuffle of the visiting order
+  const order = Array.from({ length: count }, (_, i) => i);
+  for (let i = count - 1; i > 0; i--) {
+    const k = Math.floor(random() * (i + 1));
+    [order[i], order[k]] = [order[k], order[i]];
+  }
+
+  for (const i of order) {
+    const cx = cellOf(from[i * 3], cellSize);
+    const cy = cellOf(from[i * 3 + 1], cellSize);
+    const cz = cellOf(from[i * 3 + 2], cellSize);
+    let best = -1;
+    let bestDistance = Infinity;
+
+    for (let r = 0; r <= MAX_SHELLS; r++) {
+      // Visit only the cells on the surface of the (2r+1)^3 cube: inside the
+      // x/y faces, z jumps straight from the front face to the back face
+      for (let dx = -r; dx <= r; dx++) {
+        for (let dy = -r; dy <= r; dy++) {
+          const zStep = r === 0 || Math.abs(dx) === r || Math.abs(dy) === r ? 1 : 2 * r;
+          for (let dz = -r; dz <= r; dz += zStep) {
+            const bucket = cells.get(packCell(cx + dx, cy + dy, cz + dz));
+            if (!bucket) continue;
+            for (const j of bucket) {
+              const d = distanceSq(i, j);
+              if (d < bestDistance) {
+                bestDistance = d;
+                best = j;
+              }
+            }
+          }
+        }
+      }
+      // Cells in the next shell are at least r cells away
+      if (best >= 0 && bestDistance <= (r * cellSize) ** 2) break;
+    }
+
+    if (best < 0) {
+      for (let j = 0; j < count; j++) {
+        if (used[j]) continue;
+        const d = distanceSq(i, j);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = j;
+        }
+      }
+    }
+
+    used[best] = 1;
+    const key = packCell(cellOf(to[best * 3], cellSize), cellOf(to[best * 3 + 1], cellSize), cellOf(to[best * 3 + 2], cellSize));
+    const bucket = cells.get(key)!;
+    bucket.splice(bucket.indexOf(best), 1);
+    if (bucket.length === 0) cells.delete(key);
+
+    result[i] = best;
+  }
+
+  return result;
+};
+
+// Triples (positions, colours) rearranged by an order from pairNearestOrder
+export const reorderTriples = (values: Float32Array, order: Uint32Array): Float32Array => {
+  const result = new Float32Array(values.length);
+  order.forEach((j, i) => {
+    result[i * 3] = values[j * 3];
+    result[i * 3 + 1] = values[j * 3 + 1];
+    result[i * 3 + 2] = values[j * 3 + 2];
+  });
+  return result;
+};
+
+// Reorders `to` so that to[i] lies close to from[i]
+export const pairNearest = (
+  from: Float32Array,
+  to: Float32Array,
+  random: () => number = Math.random
+): Float32Array => {
+  return reorderTriples(to, pairNearestOrder(from, to, random));
+};
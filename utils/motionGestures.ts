@@ -0,0 +1,123 @@
+import { Handedness, MotionEvent, Vec3 } from '../types';
+import { Landmark, getPalmCenter, getPalmSize } from './handAnalysis';
+
+export interface MotionRecognizerOptions {
+  historyMs: number; // Rolling window kept for circles
+  swipeWindowMs: number; // Window a swipe must complete in
+  swipeDistance: number; // Minimum palm travel, in normalized image units
+  circleMinTurns: number; // Fraction of a full turn that counts as a circle
+  circleMinRadius: number; // Normalized image units
+  depthChange: number; // Relative palm-size change for push / pull
+  cooldownMs: number; // Quiet time after any event
+}
+
+export const DEFAULT_MOTION_OPTIONS: MotionRecognizerOptions = {
+  historyMs: 1200,
+  swipeWindowMs: 350,
+  swipeDistance: 0.25,
+  circleMinTurns: 0.85,
+  circleMinRadius: 0.04,
+  depthChange: 0.25,
+  cooldownMs: 600,
+};
+
+interface MotionSample {
+  t: number;
+  palm: Vec3; // As the user sees it: x grows to their right, y grows upward
+  tip: Vec3; // Index fingertip, same space
+  size: number; // Palm size - grows as the hand moves toward the camera
+}
+
+// Flip into the mirrored, y-up view the user sees on screen
+const toUserView = (p: Vec3): Vec3 => ({ x: 1 - p.x, y: 1 - p.y, z: p.z });
+
+// Keeps a rolling history of wrist/palm and fingertip positions for one
+// hand and emits swipes, circles and push/pull from the trajectory.
+export const createMotionRecognizer = (handedness: Handedness, options: Partial<MotionRecognizerOptions> = {}) => {
+  const opts = { ...DEFAULT_MOTION_OPTIONS, ...options };
+  let history: MotionSample[] = [];
+  let quietUntil = -Infinity;
+
+  const emit = (type: MotionEvent['type'], timestamp: number, strength: number): MotionEvent => {
+    history = [];
+    quietUntil = timestamp + opts.cooldownMs;
+    return { type, handedness, timestamp, strength: Math.max(0, Math.min(1, strength)) };
+  };
+
+  const detectSwipe = (timestamp: number): MotionEvent | null => {
+    const recent = history.filter(s => timestamp - s.t <= opts.swipeWindowMs);
+    if (recent.length < 3) return null;
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const dx = last.palm.x - first.palm.x;
+    const dy = last.palm.y - first.palm.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < opts.swipeDistance) return null;
+
+    const strength = dist / (opts.swipeDistance * 2);
+    if (Math.abs(dx) > Math.abs(dy) * 1.5) {
+      return emit(dx > 0 ? 'swipe_right' : 'swipe_left', timestamp, strength);
+    }
+    if (Math.abs(dy) > Math.abs(dx) * 1.5) {
+      return emit(dy > 0 ? 'swipe_up' : 'swipe_down', timestamp, strength);
+    }
+    return null; // Diagonal - ambiguous
+  };
+
+  const detectPushPull = (timestamp: number): MotionEvent | null => {
+    const recent = history.filter(s => timestamp - s.t <= opts.swipeWindowMs);
+    if (recent.length < 3) return null;
+    const change = recent[recent.length - 1].size / recent[0].size - 1;
+    if (change > opts.depthChange) return emit('push', timestamp, change / (opts.depthChange * 2));
+    if (change < -opts.depthChange * 0.8) return emit('pull', timestamp, -change / (opts.depthChange * 2));
+    return null;
+  };
+
+  // Sum the fingertip's turning angle around the centroid of its path
+  const detectCircle = (timestamp: number): MotionEvent | null => {
+    if (history.length < 10) return null;
+    const cx = history.reduce((sum, s) => sum + s.tip.x, 0) / history.length;
+    const cy = history.reduce((sum, s) => sum + s.tip.y, 0) / history.length;
+    const radii = history.map(s => Math.hypot(s.tip.x - cx, s.tip.y - cy));
+    const radius = radii.reduce((a, b) => a + b, 0) / radii.length;
+    if (radius < opts.circleMinRadius) return null;
+    // A circle keeps a roughly constant distance from its center
+    if (radii.some(r => Math.abs(r - radius) > radius * 0.6)) return null;
+
+    let turned = 0;
+    for (let i = 1; i < history.length; i++) {
+      const a0 = Math.atan2(history[i - 1].tip.y - cy, history[i - 1].tip.x - cx);
+      const a1 = Math.atan2(history[i].tip.y - cy, history[i].tip.x - cx);
+      let delta = a1 - a0;
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      turned += delta;
+    }
+
+    const turns = Math.abs(turned) / (2 * Math.PI);
+    if (turns < opts.circleMinTurns) return null;
+    // y is up, so a positive angle is counter-clockwise
+    return emit(turned > 0 ? 'circle_ccw' : 'circle_cw', timestamp, turns);
+  };
+
+  const update = (landmarks: Landmark[], timestamp: number): MotionEvent | null => {
+    history.push({
+      t: timestamp,
+      palm: toUserView(getPalmCenter(landmarks)),
+      tip: toUserView(landmarks[8]),
+      size: getPalmSize(landmarks),
+    });
+    history = history.filter(s => timestamp - s.t <= opts.historyMs);
+
+    if (timestamp < quietUntil) return null;
+    return detectSwipe(timestamp) ?? detectPushPull(timestamp) ?? detectCircle(timestamp);
+  };
+
+  const reset = () => {
+    history = [];
+  };
+
+  return { update, reset };
+};
+
+export type MotionRecognizer = ReturnType<typeof createMotionRecognizer>;
@@ -0,0 +1,175 @@
+import * as THREE from 'three';
+import { COLOR_DRIVERS, ColorDriver, GradientStop } from '../types';
+
+// Texels in the gradient lookup texture the render shaders sample
+export const PALETTE_TEXTURE_WIDTH = 256;
+
+// Gradient editor limit; keeps the stop list short enough to edit by hand
+export const MAX_GRADIENT_STOPS = 8;
+
+// Gradients offered in the colour panel, each with the driver it is picked
+// with from solid colour. Looping palettes end on their first colour so the
+// 'time' driver wraps around without a jump.
+export const BUILTIN_PALETTES: { name: string; driver: ColorDriver; stops: GradientStop[] }[] = [
+  {
+    name: 'Rainbow',
+    driver: 'time',
+    stops: ['#ff0000', '#ff7f00', '#ffff00', '#00ff00', '#0000ff', '#4b0082', '#9400d3', '#ff0000']
+      .map((color, i, colors) => ({ position: i / (colors.length - 1), color })),
+  },
+  {
+    name: 'Fire',
+    driver: 'radius',
+    stops: [
+      { position: 0, color: '#ffffaa' },
+      { position: 0.3, color: '#ffaa00' },
+      { position: 0.65, color: '#ff3300' },
+      { position: 1, color: '#330000' },
+    ],
+  },
+  {
+    name: 'Ocean',
+    driver: 'height',
+    stops: [
+      { position: 0, color: '#001a4d' },
+      { position: 0.3, color: '#0066ff' },
+      { position: 0.65, color: '#00ffff' },
+      { position: 1, color: '#ffffff' },
+    ],
+  },
+  {
+    name: 'Aurora',
+    driver: 'speed',
+    stops: [
+      { position: 0, color: '#00ff88' },
+      { position: 0.35, color: '#00ffff' },
+      { position: 0.7, color: '#8a2be2' },
+      { position: 1, color: '#00ff88' },
+    ],
+  },
+  {
+    name: 'Sunset',
+    driver: 'trail',
+    stops: [
+      { position: 0, color: '#ffcc00' },
+      { position: 0.4, color: '#ff3366' },
+      { position: 1, color: '#3300cc' },
+    ],
+  },
+];
+
+export const sortStops = (stops: GradientStop[]): GradientStop[] => {
+  return [...stops].sort((a, b) => a.position - b.position);
+};
+
+// Colour at t (0-1) along the gradient, interpolated in three's working
+// colour space so a one-stop palette matches the solid uColor exactly
+export const samplePalette = (stops: GradientStop[], t: number, target = new THREE.Color()): THREE.Color => {
+  const sorted = sortStops(stops);
+  if (sorted.length === 0) return target.set(0xffffff);
+
+  const u = Math.min(Math.max(t, 0), 1);
+  const next = sorted.findIndex(stop => stop.position >= u);
+  if (next === 0) return target.set(sorted[0].color);
+  if (next === -1) return target.set(sorted[sorted.length - 1].color);
+
+  const a = sorted[next - 1];
+  const b = sorted[next];
+  const span = b.position - a.position;
+  return target.lerpColors(
+    new THREE.Color(a.color),
+    new THREE.Color(b.color),
+    span > 0 ? (u - a.position) / span : 1,
+  );
+};
+
+// Fills RGBA bytes, one texel per step along the gradient
+export const writePaletteData = (stops: GradientStop[], data: Uint8Array) => {
+  const width = data.length / 4;
+  const color = new THREE.Color();
+  for (let i = 0; i < width; i++) {
+    samplePalette(stops, i / (width - 1), color);
+    data[i * 4] = Math.round(color.r * 255);
+    data[i * 4 + 1] = Math.round(color.g * 255);
+    data[i * 4 + 2] = Math.round(color.b * 255);
+    data[i * 4 + 3] = 255;
+  }
+};
+
+// Stop to add between the two furthest-apart neighbours, coloured to match
+// the gradient there so adding it changes nothing until it is edited
+export const splitWidestGap = (stops: GradientStop[]): GradientStop => {
+  const sorted = sortStops(stops);
+  const points = [0, ...sorted.map(stop => stop.position), 1];
+  let best = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    if (points[i + 1] - points[i] > points[best + 1] - points[best]) best = i;
+  }
+  const position = (points[best] + points[best + 1]) / 2;
+  return { position, color: `#${samplePalette(stops, position).getHexString()}` };
+};
+
+// CSS background previewing the gradient in the colour panel
+export const paletteCss = (stops: GradientStop[]) => {
+  const sorted = sortStops(stops);
+  if (sorted.length === 1) return sorted[0].color;
+  return `linear-gradient(to right, ${sorted.map(stop => `${stop.color} ${stop.position * 100}%`).join(', ')})`;
+};
+
+// Driver values reaching the end of the gradient
+const RADIUS_RANGE = 3.5; // Saturn's ring reaches about 3.3
+const HEIGHT_RANGE = 2.5; // Shapes span about -2.5 to 2.5 in y
+const SPEED_RANGE = 4.0; // Units per second; bursts and gestures go well past this
+
+// GLSL helper for render shaders: the base colour before per-particle image
+// colours. `trail` runs from 0 at the particle to 1 at the end of its trail.
+export const PALETTE_GLSL = `
+  uniform vec3 uColor;
+  uniform sampler2D uPalette;
+  uniform sampler2D uVelocity;
+  uniform int uColorDriver;
+  uniform float uPaletteTime; // 0-1, wrapped
+  uniform float uHandTension; // 0.0 (Open) to 1.0 (Fist)
+
+  vec3 paletteColor(vec3 pos, vec2 simUv, float trail) {
+    if (uColorDriver == 0) return uColor;
+    float t = 0.0;
+    if (uColorDriver == 1) t = length(pos) / ${RADIUS_RANGE.toFixed(1)};
+    else if (uColorDriver == 2) t = 0.5 + pos.y / (2.0 * ${HEIGHT_RANGE.toFixed(1)});
+    else if (uColorDriver == 3) t = trail;
+    else if (uColorDriver == 4) t = length(texture2D(uVelocity, simUv).xyz) / ${SPEED_RANGE.toFixed(1)};
+    else if (uColorDriver == 5) t = uPaletteTime;
+    else t = uHandTension;
+    return texture2D(uPalette, vec2(clamp(t, 0.0, 1.0), 0.5)).rgb;
+  }
+`;
+
+// uColorDriver value; unknown drivers from old presets fall back to solid
+export const colorDriverIndex = (driver: ColorDriver) => Math.max(COLOR_DRIVERS.indexOf(driver), 0);
+
+// Gradient lookup texture; `update` rewrites it in place when the stops change
+export const createPaletteTexture = (stops: GradientStop[]) => {
+  const data = new Uint8Array(PALETTE_TEXTURE_WIDTH * 4);
+  const texture = new THREE.DataTexture(data, PALETTE_TEXTURE_WIDTH, 1, THREE.RGBAFormat);
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+
+  let current: GradientStop[] | null = null;
+  const update = (next: GradientStop[]) => {
+    if (next === current) return;
+    current = next;
+    writePaletteData(next, data);
+    texture.needsUpdate = true;
+  };
+  update(stops);
+
+  return {
+    texture,
+    update,
+    dispose: () => texture.dispose(),
+  };
+};
+
+export type PaletteTexture = ReturnType<typeof createPaletteTexture>;
@@ -0,0 +1,372 @@
+import * as THREE from 'three';
+import { GPUComputationRenderer } from 'three/examples/jsm/misc/GPUComputationRenderer.js';
+import { PARTICLE_BEHAVIORS, TRAIL_LENGTH } from '../types';
+
+export interface SimulationOptions {
+  spring: number; // Pull toward the shape, per unit of distance
+  drag: number; // Velocity lost per second (exponential)
+  noise: number; // Curl-noise force, keeps particles drifting at rest
+  maxDelta: number; // Longest step in seconds - avoids blow-ups after a stalled frame
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  spring: 6.0,
+  drag: 2.5,
+  noise: 0.3,
+  maxDelta: 1 / 30,
+};
+
+// #defines for the behaviour ids, generated so the shader and PARTICLE_BEHAVIORS can't drift
+export const BEHAVIOR_DEFINES = PARTICLE_BEHAVIORS
+  .map((behavior, i) => `#define BEHAVIOR_${behavior.toUpperCase()} ${i}`)
+  .join('\n');
+
+// Square texture with one texel per particle
+export const simulationTextureSize = (count: number) => Math.ceil(Math.sqrt(count));
+
+// Per-vertex lookup into the simulation textures (all vertices of a
+// particle share its texel)
+export const createSimulationUvs = (count: number, verticesPerParticle: number = TRAIL_LENGTH): Float32Array => {
+  const size = simulationTextureSize(count);
+  const uvs = new Float32Array(count * verticesPerParticle * 2);
+  for (let i = 0; i < count; i++) {
+    const u = ((i % size) + 0.5) / size;
+    const v = (Math.floor(i / size) + 0.5) / size;
+    for (let t = 0; t < verticesPerParticle; t++) {
+      uvs[(i * verticesPerParticle + t) * 2] = u;
+      uvs[(i * verticesPerParticle + t) * 2 + 1] = v;
+    }
+  }
+  return uvs;
+};
+
+// GLSL helper for render shaders: position `slot` frames ago (0 = now) from
+// the history texture
+export const HISTORY_LOOKUP_GLSL = `
+  uniform sampler2D uHistory;
+  uniform float uSimSize;
+
+  vec3 historyPosition(vec2 simUv, float slot) {
+    float particleX = floor(simUv.x * uSimSize);
+    float u = (particleX * ${TRAIL_LENGTH}.0 + slot + 0.5) / (uSimSize * ${TRAIL_LENGTH}.0);
+    return texture2D(uHistory, vec2(u, simUv.y)).xyz;
+  }
+`;
+
+const positionShader = `
+  uniform float uDelta;
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    gl_FragColor = vec4(pos + vel * uDelta, 1.0);
+  }
+`;
+
+// History rows hold TRAIL_LENGTH slots per particle: slot 0 takes the new
+// position, every other slot takes its left neighbour from the last frame
+const historyShader = `
+  uniform sampler2D uPositions;
+  uniform sampler2D uHistory;
+  uniform vec2 uHistorySize;
+
+  void main() {
+    vec2 texel = floor(gl_FragCoord.xy);
+    float slot = mod(texel.x, ${TRAIL_LENGTH}.0);
+    if (slot < 0.5) {
+      vec2 particle = vec2(floor(texel.x / ${TRAIL_LENGTH}.0), texel.y);
+      gl_FragColor = texture2D(uPositions, (particle + 0.5) / resolution.xy);
+    } else {
+      gl_FragColor = texture2D(uHistory, (texel - vec2(1.0, 0.0) + 0.5) / uHistorySize);
+    }
+  }
+`;
+
+const velocityShader = `
+  ${BEHAVIOR_DEFINES}
+
+  uniform sampler2D uTargetPrev;
+  uniform sampler2D uTarget;
+  uniform float uMorph;
+  uniform int uMorphEasing;
+  uniform float uMorphStagger;
+  uniform float uTime;
+  uniform float uDelta;
+  uniform float uTension;
+  uniform float uExplosion;
+  uniform float uStretch;
+  uniform float uSplit;
+  uniform int uBehavior;
+  uniform vec3 uAnchorPos;
+  uniform vec3 uOrbitPos1;
+  uniform vec3 uOrbitPos2;
+  uniform float uSpring;
+  uniform float uDrag;
+  uniform float uNoise;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+  }
+
+  // Analytic curl of a sum-of-sines vector potential: divergence free, so
+  // particles swirl without bunching up, and far cheaper than simplex noise
+  vec3 curlNoise(vec3 p, float t) {
+    return vec3(
+      0.8 * cos(p.y * 0.8) - 1.1 * cos(p.z * 1.1 + t * 0.8),
+      0.7 * cos(p.z * 0.7 - t * 0.6) - 1.2 * cos(p.x * 1.2 - t * 0.7),
+      0.9 * cos(p.x * 0.9) - 1.3 * cos(p.y * 1.3 + t)
+    );
+  }
+
+  // 0 linear, 1 smooth (cubic in-out), 2 back (overshoot), 3 elastic
+  float easeMorph(float t) {
+    if (uMorphEasing == 1) {
+      float u = -2.0 * t + 2.0;
+      return t < 0.5 ? 4.0 * t * t * t : 1.0 - u * u * u / 2.0;
+    }
+    if (uMorphEasing == 2) {
+      float u = t - 1.0;
+      return 1.0 + 2.70158 * u * u * u + 1.70158 * u * u;
+    }
+    if (uMorphEasing == 3) {
+      if (t <= 0.0 || t >= 1.0) return t;
+      return pow(2.0, -10.0 * t) * sin((t * 10.0 - 0.75) * 2.0943951) + 1.0;
+    }
+    return t;
+  }
+
+  void main() {
+    vec2 uv = gl_FragCoord.xy / resolution.xy;
+    vec3 pos = texture2D(texturePosition, uv).xyz;
+    vec3 vel = texture2D(textureVelocity, uv).xyz;
+    float seed = hash(uv);
+
+    // Morph: each particle starts after its own delay, then eases across
+    float progress = clamp((uMorph - seed * uMorphStagger) / (1.0 - uMorphStagger), 0.0, 1.0);
+    vec3 target = mix(texture2D(uTargetPrev, uv).xyz, texture2D(uTarget, uv).xyz, easeMorph(progress));
+
+    // Rest position: the shape scaled by tension and breathing, pushed out by
+    // explosions, then stretched / split by two hands
+    float breath = sin(uTime * 0.6 + seed * 0.5) * 0.02;
+    float expansion = uTension * 1.8 + 0.3;
+    float explode = uExplosion * 3.0 * (0.5 + length(target) * 2.0);
+    vec3 goal = target * (expansion + breath) + normalize(target + vec3(0.001)) * explode;
+    goal *= 1.0 + uStretch * 0.8;
+    goal.x += (target.x >= 0.0 ? 1.0 : -1.0) * uSplit;
+
+    // Gesture behaviours loosen the spring so particles can leave the shape
+    float spring = uSpring * (uBehavior == BEHAVIOR_NONE ? 1.0 : 0.2);
+    float drag = uDrag;
+    vec3 force = (goal - pos) * spring;
+    force += curlNoise(pos * 0.6, uTime * 0.3) * uNoise;
+
+    // GESTURE BEHAVIOUR (chosen through the gesture binding table)
+    if (uBehavior == BEHAVIOR_ATTRACT) {
+      // Fly toward the anchor (fingertip when pointing), each at its own pace
+      vec3 toAnchor = uAnchorPos - pos;
+      force += toAnchor / max(length(toAnchor), 0.05) * 10.0 * (0.6 + seed * 0.8);
+    }
+    else if (uBehavior == BEHAVIOR_CLUSTER) {
+      // Collapse onto the anchor and stay there
+      force += (uAnchorPos - pos) * 18.0;
+      drag *= 3.0;
+    }
+    else if (uBehavior == BEHAVIOR_GRAVITY) {
+      force.y -= 9.0;
+    }
+    else if (uBehavior == BEHAVIOR_SPLIT_ORBIT) {
+      // Circle whichever of the two centers is nearer
+      vec3 center = length(uOrbitPos1 - pos) < length(uOrbitPos2 - pos) ? uOrbitPos1 : uOrbitPos2;
+      vec3 toCenter = normalize(center - pos + vec3(0.0001));
+      force += toCenter * 8.0 + cross(toCenter, vec3(0.0, 0.0, 1.0)) * 5.0;
+    }
+    else if (uBehavior == BEHAVIOR_REPEL) {
+      // Push away from the anchor, strongest close to it
+      vec3 away = pos - uAnchorPos;
+      float d = length(away);
+      force += away / max(d, 0.05) * 40.0 / (1.0 + d * d * 4.0);
+    }
+    else if (uBehavior == BEHAVIOR_VORTEX) {
+      // Swirl around the anchor's view axis, drawn gently inward
+      vec2 rel = pos.xy - uAnchorPos.xy;
+      force.xy += vec2(-rel.y, rel.x) * 8.0 / (1.0 + dot(rel, rel)) - rel * 1.5;
+    }
+
+    vel += force * uDelta;
+    vel *= exp(-drag * uDelta);
+
+    // Gravity needs a floor to land on
+    if (uBehavior == BEHAVIOR_GRAVITY && pos.y < -2.5 && vel.y < 0.0) {
+      vel.y *= -0.4;
+    }
+
+    gl_FragColor = vec4(vel, 1.0);
+  }
+`;
+
+// Stateful particle physics on the GPU: position and velocity live in float
+// render targets that are ping-ponged every step. The last TRAIL_LENGTH
+// positions are kept in a history texture for trails.
+export const createParticleSimulation = (
+  renderer: THREE.WebGLRenderer,
+  count: number,
+  initialTargets: Float32Array, // One point per particle, as returned by generateGeometry
+  options: Partial<SimulationOptions> = {}
+) => {
+  const opts = { ...DEFAULT_SIMULATION_OPTIONS, ...options };
+  const size = simulationTextureSize(count);
+  const gpu = new GPUComputationRenderer(size, size, renderer);
+
+  // Morphs blend from the previous target texture to the current one
+  const createTargetTexture = () => {
+    return new THREE.DataTexture(new Float32Array(size * size * 4), size, size, THREE.RGBAFormat, THREE.FloatType);
+  };
+  const prevTargetTexture = createTargetTexture();
+  const targetTexture = createTargetTexture();
+  const prevTargetData = prevTargetTexture.image.data as Float32Array;
+  const targetData = targetTexture.image.data as Float32Array;
+  let currentTargets = initialTargets.slice();
+  let morphDuration = 1.0;
+
+  const writeTargets = (targets: Float32Array, out: Float32Array) => {
+    for (let i = 0; i < count; i++) {
+      out[i * 4] = targets[i * 3];
+      out[i * 4 + 1] = targets[i * 3 + 1];
+      out[i * 4 + 2] = targets[i * 3 + 2];
+      out[i * 4 + 3] = 1;
+    }
+  };
+
+  writeTargets(initialTargets, targetData);
+  prevTargetData.set(targetData);
+  targetTexture.needsUpdate = true;
+  prevTargetTexture.needsUpdate = true;
+
+  // Particles start on the shape, at rest
+  const initialPositions = gpu.createTexture();
+  writeTargets(initialTargets, initialPositions.image.data as Float32Array);
+  const initialVelocities = gpu.createTexture();
+
+  const positionVariable = gpu.addVariable('texturePosition', positionShader, initialPositions);
+  const velocityVariable = gpu.addVariable('textureVelocity', velocityShader, initialVelocities);
+  gpu.setVariableDependencies(positionVariable, [positionVariable, velocityVariable]);
+  gpu.setVariableDependencies(velocityVariable, [positionVariable, velocityVariable]);
+
+  positionVariable.material.uniforms.uDelta = { value: 0 };
+  const uniforms = {
+    uTargetPrev: { value: prevTargetTexture },
+    uTarget: { value: targetTexture },
+    uMorph: { value: 1 }, // 0 -> 1 over a morph
+    uMorphEasing: { value: 0 },
+    uMorphStagger: { value: 0 }, // Share of the morph spent waiting for the slowest particle
+    uTime: { value: 0 },
+    uDelta: { value: 0 },
+    uTension: { value: 0.5 },
+    uExplosion: { value: 0 },
+    uStretch: { value: 0 },
+    uSplit: { value: 0 },
+    uBehavior: { value: 0 }, // Index into PARTICLE_BEHAVIORS
+    uAnchorPos: { value: new THREE.Vector3() },
+    uOrbitPos1: { value: new THREE.Vector3() },
+    uOrbitPos2: { value: new THREE.Vector3() },
+    uSpring: { value: opts.spring },
+    uDrag: { value: opts.drag },
+    uNoise: { value: opts.noise },
+  };
+  Object.assign(velocityVariable.material.uniforms, uniforms);
+
+  const error = gpu.init();
+  if (error) {
+    gpu.dispose();
+    targetTexture.dispose();
+    prevTargetTexture.dispose();
+    throw new Error(`GPU particle simulation unavailable: ${error}`);
+  }
+
+  // Position history, ping-ponged like the simulation variables
+  const historyTargets = [0, 1].map(() => gpu.createRenderTarget(
+    size * TRAIL_LENGTH, size,
+    THREE.ClampToEdgeWrapping, THREE.ClampToEdgeWrapping,
+    THREE.NearestFilter, THREE.NearestFilter
+  ));
+  const historyMaterial = gpu.createShaderMaterial(historyShader, {
+    uPositions: { value: null },
+    uHistory: { value: null },
+    uHistorySize: { value: new THREE.Vector2(size * TRAIL_LENGTH, size) },
+  });
+  let historyIndex = 0;
+
+  const pushHistory = () => {
+    historyMaterial.uniforms.uPositions.value = gpu.getCurrentRenderTarget(positionVariable).texture;
+    historyMaterial.uniforms.uHistory.value = historyTargets[historyIndex].texture;
+    historyIndex = 1 - historyIndex;
+    gpu.doRenderTarget(historyMaterial, historyTargets[historyIndex]);
+  };
+
+  // Fill every slot with the starting positions so trails don't streak from the origin
+  for (let i = 0; i < TRAIL_LENGTH; i++) pushHistory();
+
+  // Advance by `delta` seconds
+  const step = (time: number, delta: number) => {
+    const dt = Math.min(Math.max(delta, 0), opts.maxDelta);
+    uniforms.uTime.value = time;
+    uniforms.uDelta.value = dt;
+    positionVariable.material.uniforms.uDelta.value = dt;
+    uniforms.uMorph.value = Math.min(1, uniforms.uMorph.value + dt / morphDuration);
+    gpu.compute();
+    pushHistory();
+  };
+
+  // New shape: the current targets become the morph's starting point.
+  // Particles keep their position and velocity and spring along.
+  const morphTo = (targets: Float32Array) => {
+    prevTargetData.set(targetData);
+    writeTargets(targets, targetData);
+    prevTargetTexture.needsUpdate = true;
+    targetTexture.needsUpdate = true;
+    currentTargets = targets.slice();
+    uniforms.uMorph.value = 0;
+  };
+
+  const setMorphOptions = ({ duration, easing, stagger }: { duration: number; easing: number; stagger: number }) => {
+    morphDuration = Math.max(duration, 0.01);
+    uniforms.uMorphEasing.value = easing;
+    uniforms.uMorphStagger.value = Math.max(0, Math.min(stagger, 0.95));
+  };
+
+  const dispose = () => {
+    gpu.dispose();
+    targetTexture.dispose();
+    prevTargetTexture.dispose();
+    historyTargets.forEach(target => target.dispose());
+    historyMaterial.dispose();
+  };
+
+  return {
+    uniforms,
+    size,
+    // Approximate GPU memory of the RGBA float textures: position and
+    // velocity (ping-ponged), both morph targets and the history pair
+    textureBytes: size * size * 16 * (4 + 2 + 2 * TRAIL_LENGTH),
+    step,
+    morphTo,
+    setMorphOptions,
+    dispose,
+    // Targets of the latest shape, one xyz triple per particle
+    get targets() {
+      return currentTargets;
+    },
+    get historyTexture() {
+      return historyTargets[historyIndex].texture;
+    },
+    get positionTexture() {
+      return gpu.getCurrentRenderTarget(positionVariable).texture;
+    },
+    get velocityTexture() {
+      return gpu.getCurrentRenderTarget(velocityVariable).texture;
+    },
+  };
+};
+
+export type ParticleSimulation = ReturnType<typeof createParticleSimulation>;
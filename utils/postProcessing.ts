@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { Pass } from 'three/examples/jsm/postprocessing/Pass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { VignetteShader } from 'three/examples/jsm/shaders/VignetteShader.js';
+import { POST_EFFECTS, PostEffect, PostProcessingConfig } from '../types';
+
+// Page background from index.html. Bloom writes opaque pixels, so while
+// the chain runs the canvas is cleared to this instead of transparent.
+const BACKGROUND = 0x050505;
+
+// Effects that should run: on in the config and allowed by the quality tier
+export const activePostEffects = (config: PostProcessingConfig, allowed: readonly PostEffect[]): PostEffect[] => {
+  return POST_EFFECTS.filter(effect => config[effect].enabled && allowed.includes(effect));
+};
+
+// EffectComposer chain drawn in place of renderer.render. Passes stay in
+// the chain and are toggled with `enabled`; with none enabled the scene is
+// rendered directly, so the chain costs nothing while unused. There is no
+// OutputPass: the particle shaders write display colours already, as they
+// do when drawn straight to the canvas.
+export const createPostProcessing = (renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) => {
+  const size = renderer.getSize(new THREE.Vector2());
+  const composer = new EffectComposer(renderer);
+  composer.setPixelRatio(renderer.getPixelRatio());
+  composer.setSize(size.x, size.y);
+
+  const bloom = new UnrealBloomPass(size, 1, 0.4, 0.1);
+  const afterimage = new AfterimagePass();
+  const chromatic = new ShaderPass(RGBShiftShader);
+  const vignette = new ShaderPass(VignetteShader);
+  const grain = new FilmPass();
+  const passes: Record<PostEffect, Pass> = { bloom, afterimage, chromatic, vignette, grain };
+
+  composer.addPass(new RenderPass(scene, camera));
+  POST_EFFECTS.forEach(effect => composer.addPass(passes[effect]));
+
+  let active = false;
+
+  const configure = (config: PostProcessingConfig, allowed: readonly PostEffect[]) => {
+    const effects = activePostEffects(config, allowed);
+    POST_EFFECTS.forEach(effect => {
+      passes[effect].enabled = effects.includes(effect);
+    });
+
+    bloom.threshold = config.bloom.threshold;
+    bloom.strength = config.bloom.strength;
+    bloom.radius = config.bloom.radius;
+    afterimage.damp = config.afterimage.damp;
+    chromatic.uniforms.amount.value = config.chromatic.amount;
+    vignette.uniforms.offset.value = config.vignette.offset;
+    vignette.uniforms.darkness.value = config.vignette.darkness;
+    grain.material.uniforms.intensity.value = config.grain.intensity;
+
+    active = effects.length > 0;
+    renderer.setClearColor(BACKGROUND, active ? 1 : 0);
+  };
+
+  const render = (delta: number) => {
+    if (active) composer.render(delta);
+    else renderer.render(scene, camera);
+  };
+
+  // Follow the renderer: call after renderer.setSize / setPixelRatio
+  const resize = () => {
+    renderer.getSize(size);
+    composer.setPixelRatio(renderer.getPixelRatio());
+    composer.setSize(size.x, size.y);
+  };
+
+  const dispose = () => {
+    composer.passes.forEach(pass => pass.dispose());
+    composer.dispose();
+  };
+
+  return {
+    configure,
+    render,
+    resize,
+    dispose,
+    get active() {
+      return active;
+    },
+  };
+};
+
+export type PostProcessing = ReturnType<typeof createPostProcessing>;
@@ -0,0 +1,46 @@
+import { ParticleConfig } from '../types';
+
+// A named snapshot of the particle config, kept in localStorage
+export interface Preset {
+  name: string;
+  config: ParticleConfig;
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'particle-testing:presets';
+
+export const loadPresets = (): Preset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const presets = JSON.parse(raw);
+    return Array.isArray(presets)
+      ? presets.filter((p): p is Preset => typeof p?.name === 'string' && typeof p.config === 'object')
+      : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const storePresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+// Saving under an existing name replaces that preset
+export const savePreset = (name: string, config: ParticleConfig): Preset[] => {
+  const presets = loadPresets().filter(p => p.name !== name);
+  presets.push({ name, config, savedAt: Date.now() });
+  storePresets(presets);
+  return presets;
+};
+
+export const deletePreset = (name: string): Preset[] => {
+  const presets = loadPresets().filter(p => p.name !== name);
+  storePresets(presets);
+  return presets;
+};
+
+// Presets saved before a config field existed keep the current value for it
+export const applyPreset = (current: ParticleConfig, preset: Preset): ParticleConfig => {
+  return { ...current, ...preset.config };
+};
@@ -0,0 +1,278 @@
+// Collects frame, GPU and hand-tracking timings for the performance monitor.
+// All times are milliseconds from performance.now().
+
+export interface ProfilerOptions {
+  historySize: number; // Samples kept per timing (frame graph and percentiles)
+  rateWindow: number; // Render FPS and tracking rate are counted over this many ms
+  sessionInterval: number; // ms between snapshots appended to the exported session
+  maxSessionSamples: number; // Oldest snapshots are dropped beyond this
+}
+
+export const DEFAULT_PROFILER_OPTIONS: ProfilerOptions = {
+  historySize: 240,
+  rateWindow: 1000,
+  sessionInterval: 1000,
+  maxSessionSamples: 3600,
+};
+
+export interface TimingStats {
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+// Latest renderer.info counters plus the app's own buffer sizes
+export interface RenderStats {
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  geometries: number;
+  textures: number;
+  bufferBytes: number; // Vertex attributes of the particle geometries
+  textureBytes: number; // Float textures of the GPU simulation
+}
+
+export interface ProfilerSnapshot {
+  time: number; // ms since the session started
+  fps: number; // Render frames in the last rateWindow
+  frameTime: TimingStats | null;
+  cpuTime: TimingStats | null; // JS time spent in the animate loop
+  gpuTime: TimingStats | null; // null without EXT_disjoint_timer_query_webgl2
+  detectionLatency: TimingStats | null; // detectForVideo; null for recordings
+  trackingRate: number; // Hand-tracking results in the last rateWindow, per second
+  render: RenderStats;
+}
+
+// Exported profiling session, for comparing machines
+export interface ProfilerSession {
+  version: 1;
+  startedAt: string; // ISO date
+  environment: {
+    userAgent: string;
+    gpu: string | null;
+    devicePixelRatio: number;
+    screen: [number, number];
+  };
+  samples: ProfilerSnapshot[];
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export const percentile = (sorted: ArrayLike<number>, p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const timingStats = (values: ArrayLike<number>): TimingStats | null => {
+  if (values.length === 0) return null;
+  const sorted = Float64Array.from(values).sort();
+  let sum = 0;
+  for (let i = 0; i < sorted.length; i++) sum += sorted[i];
+  return {
+    mean: sum / sorted.length,
+    p50: percentile(sorted, 50),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+  };
+};
+
+// Fixed-size history, overwriting the oldest value
+const createRingBuffer = (capacity: number) => {
+  const data = new Float64Array(capacity);
+  let next = 0;
+  let length = 0;
+
+  const push = (value: number) => {
+    data[next] = value;
+    next = (next + 1) % capacity;
+    length = Math.min(length + 1, capacity);
+  };
+
+  // Oldest first
+  const values = (): Float64Array => {
+    const out = new Float64Array(length);
+    const start = (next - length + capacity) % capacity;
+    for (let i = 0; i < length; i++) out[i] = data[(start + i) % capacity];
+    return out;
+  };
+
+  // Values pushed at or after `since`, when the buffer holds timestamps
+  const countSince = (since: number) => {
+    let count = 0;
+    for (let i = 1; i <= length; i++) {
+      if (data[(next - i + capacity) % capacity] < since) break;
+      count++;
+    }
+    return count;
+  };
+
+  const clear = () => {
+    next = 0;
+    length = 0;
+  };
+
+  return { push, values, countSince, clear };
+};
+
+const emptyRenderStats = (): RenderStats => ({
+  drawCalls: 0, triangles: 0, points: 0, lines: 0, geometries: 0, textures: 0, bufferBytes: 0, textureBytes: 0,
+});
+
+export const createProfiler = (options: Partial<ProfilerOptions> = {}) => {
+  const opts = { ...DEFAULT_PROFILER_OPTIONS, ...options };
+  const frameTimes = createRingBuffer(opts.historySize);
+  const cpuTimes = createRingBuffer(opts.historySize);
+  const gpuTimes = createRingBuffer(opts.historySize);
+  const detectionTimes = createRingBuffer(opts.historySize);
+  const frameStamps = createRingBuffer(opts.historySize);
+  const trackingStamps = createRingBuffer(opts.historySize);
+  const render = emptyRenderStats();
+
+  let now = 0; // Time of the latest frame
+  let sessionStart = -1;
+  let startedAt = new Date();
+  let lastSample = -Infinity;
+  let samples: ProfilerSnapshot[] = [];
+  let gpu: string | null = null;
+
+  const snapshot = (): ProfilerSnapshot => ({
+    time: sessionStart < 0 ? 0 : now - sessionStart,
+    fps: frameStamps.countSince(now - opts.rateWindow) * (1000 / opts.rateWindow),
+    frameTime: timingStats(frameTimes.values()),
+    cpuTime: timingStats(cpuTimes.values()),
+    gpuTime: timingStats(gpuTimes.values()),
+    detectionLatency: timingStats(detectionTimes.values()),
+    trackingRate: trackingStamps.countSince(now - opts.rateWindow) * (1000 / opts.rateWindow),
+    render: { ...render },
+  });
+
+  // One rendered frame: `time` is when it started, `frameTime` the gap
+  // since the previous frame and `cpuTime` the JS time spent producing it
+  const recordFrame = (time: number, frameTime: number, cpuTime: number) => {
+    if (sessionStart < 0) sessionStart = time;
+    now = time;
+    frameStamps.push(time);
+    frameTimes.push(frameTime);
+    cpuTimes.push(cpuTime);
+
+    if (time - lastSample >= opts.sessionInterval) {
+      lastSample = time;
+      samples.push(snapshot());
+      if (samples.length > opts.maxSessionSamples) samples.shift();
+    }
+  };
+
+  // GPU results arrive a few frames late, so they are recorded separately
+  const recordGpuTime = (gpuTime: number) => gpuTimes.push(gpuTime);
+
+  const recordRender = (stats: RenderStats) => Object.assign(render, stats);
+
+  const recordDetection = (latency: number) => detectionTimes.push(latency);
+
+  // One hand-tracking result, whatever the input source
+  const recordTrackingFrame = (time: number) => trackingStamps.push(time);
+
+  const setGpuName = (name: string | null) => {
+    gpu = name;
+  };
+
+  // Frame times oldest first, for the graph
+  const frameHistory = () => frameTimes.values();
+
+  const resetSession = () => {
+    [frameTimes, cpuTimes, gpuTimes, detectionTimes, frameStamps, trackingStamps].forEach(buffer => buffer.clear());
+    sessionStart = -1;
+    startedAt = new Date();
+    lastSample = -Infinity;
+    samples = [];
+  };
+
+  const environment = (): ProfilerSession['environment'] => ({
+    userAgent: navigator.userAgent,
+    gpu,
+    devicePixelRatio: window.devicePixelRatio,
+    screen: [window.screen.width, window.screen.height],
+  });
+
+  const exportSession = (): ProfilerSession => ({
+    version: 1,
+    startedAt: startedAt.toISOString(),
+    environment: environment(),
+    samples: samples.slice(),
+  });
+
+  return {
+    recordFrame,
+    recordGpuTime,
+    recordRender,
+    recordDetection,
+    recordTrackingFrame,
+    setGpuName,
+    snapshot,
+    frameHistory,
+    resetSession,
+    environment,
+    exportSession,
+  };
+};
+
+export type Profiler = ReturnType<typeof createProfiler>;
+
+// GPU time of the work between begin() and end(), via timer queries.
+// Returns null when EXT_disjoint_timer_query_webgl2 is unavailable
+// (most browsers expose it only on desktop, some behind a flag).
+export const createGpuTimer = (gl: WebGL2RenderingContext, maxPending: number = 4) => {
+  const ext = gl.getExtension('EXT_disjoint_timer_query_webgl2');
+  if (!ext) return null;
+
+  const pending: WebGLQuery[] = [];
+  let active: WebGLQuery | null = null;
+
+  // Skips the frame while too many results are outstanding
+  const begin = () => {
+    if (active || pending.length >= maxPending) return;
+    active = gl.createQuery();
+    if (active) gl.beginQuery(ext.TIME_ELAPSED_EXT, active);
+  };
+
+  const end = () => {
+    if (!active) return;
+    gl.endQuery(ext.TIME_ELAPSED_EXT);
+    pending.push(active);
+    active = null;
+  };
+
+  // Finished queries in order, in ms; results spanning a disjoint event
+  // (GPU reset, power change) are meaningless and dropped
+  const poll = (): number[] => {
+    const results: number[] = [];
+    const disjoint = gl.getParameter(ext.GPU_DISJOINT_EXT);
+    while (pending.length > 0 && gl.getQueryParameter(pending[0], gl.QUERY_RESULT_AVAILABLE)) {
+      const query = pending.shift()!;
+      if (!disjoint) results.push(gl.getQueryParameter(query, gl.QUERY_RESULT) / 1e6);
+      gl.deleteQuery(query);
+    }
+    return results;
+  };
+
+  const dispose = () => {
+    if (active) gl.endQuery(ext.TIME_ELAPSED_EXT);
+    [...pending, active].forEach(query => query && gl.deleteQuery(query));
+    pending.length = 0;
+    active = null;
+  };
+
+  return { begin, end, poll, dispose };
+};
+
+export type GpuTimer = NonNullable<ReturnType<typeof createGpuTimer>>;
+
+// Unmasked GPU name for session reports, when the browser exposes it
+export const gpuName = (gl: WebGL2RenderingContext): string | null => {
+  const info = gl.getExtension('WEBGL_debug_renderer_info');
+  return info ? String(gl.getParameter(info.UNMASKED_RENDERER_WEBGL)) : null;
+};
@@ -0,0 +1,130 @@
+import { POST_EFFECTS, PostEffect, TRAIL_LENGTH } from '../types';
+
+// What each quality tier allows; tiers run from best to cheapest
+export interface QualityTier {
+  name: string;
+  particleFraction: number; // Share of PARTICLE_COUNT drawn (via draw range)
+  pixelRatio: number; // Cap on window.devicePixelRatio
+  maxTrailLength: number; // Cap on config.trailLength
+  inferenceRate: number; // Max hand-tracking detections per second, 0 = every video frame
+  postEffects: readonly PostEffect[]; // Post-processing effects allowed to run, cheapest kept longest
+}
+
+export const QUALITY_TIERS: QualityTier[] = [
+  { name: 'Ultra', particleFraction: 1, pixelRatio: 1.5, maxTrailLength: TRAIL_LENGTH, inferenceRate: 0, postEffects: POST_EFFECTS },
+  { name: 'High', particleFraction: 0.75, pixelRatio: 1.25, maxTrailLength: 6, inferenceRate: 30, postEffects: ['bloom', 'chromatic', 'vignette', 'grain'] },
+  { name: 'Medium', particleFraction: 0.5, pixelRatio: 1, maxTrailLength: 4, inferenceRate: 20, postEffects: ['vignette', 'grain'] },
+  { name: 'Low', particleFraction: 0.3, pixelRatio: 0.75, maxTrailLength: 2, inferenceRate: 12, postEffects: [] },
+];
+
+export interface QualityGovernorOptions {
+  windowSeconds: number; // Frame times are averaged over windows this long
+  downgradeFps: number; // A window below this counts toward dropping a tier
+  upgradeFps: number; // A window at or above this counts toward raising a tier
+  downgradeWindows: number; // Consecutive slow windows before dropping
+  upgradeWindows: number; // Consecutive fast windows before raising, doubled each time the target tier was dropped
+  settleSeconds: number; // Ignore frame times for this long after a change
+  maxFrameTime: number; // Longer frames (tab switches, GC stalls) are skipped, in seconds
+}
+
+export const DEFAULT_QUALITY_GOVERNOR_OPTIONS: QualityGovernorOptions = {
+  windowSeconds: 1,
+  downgradeFps: 45,
+  upgradeFps: 57,
+  downgradeWindows: 2,
+  upgradeWindows: 5,
+  settleSeconds: 2,
+  maxFrameTime: 0.25,
+};
+
+// Picks a quality tier from measured frame times. The gap between
+// downgradeFps and upgradeFps, the slower climb back up and the settle time
+// after each change keep quality from oscillating around a threshold; a
+// tier that keeps failing takes longer and longer to be retried.
+export const createQualityGovernor = (options: Partial<QualityGovernorOptions> = {}) => {
+  const opts = { ...DEFAULT_QUALITY_GOVERNOR_OPTIONS, ...options };
+
+  let tierIndex = 0;
+  let windowStart = -1;
+  let windowFrames = 0;
+  let windowTime = 0;
+  let slowWindows = 0;
+  let fastWindows = 0;
+  let settleUntil = 0;
+  let lastFps = 0;
+  let drops = QUALITY_TIERS.map(() => 0); // Times each tier was dropped
+
+  const setTier = (index: number, time: number) => {
+    tierIndex = index;
+    windowStart = -1;
+    windowFrames = 0;
+    windowTime = 0;
+    slowWindows = 0;
+    fastWindows = 0;
+    settleUntil = time + opts.settleSeconds;
+  };
+
+  // Feed one frame; returns true when the tier changed
+  const sample = (time: number, frameTime: number): boolean => {
+    if (time < settleUntil || frameTime <= 0 || frameTime > opts.maxFrameTime) return false;
+    if (windowStart < 0) windowStart = time;
+    windowFrames++;
+    windowTime += frameTime;
+    if (time - windowStart < opts.windowSeconds) return false;
+
+    lastFps = windowFrames / windowTime;
+    windowStart = time;
+    windowFrames = 0;
+    windowTime = 0;
+
+    if (lastFps < opts.downgradeFps) {
+      slowWindows++;
+      fastWindows = 0;
+    } else if (lastFps >= opts.upgradeFps) {
+      fastWindows++;
+      slowWindows = 0;
+    } else {
+      slowWindows = 0;
+      fastWindows = 0;
+    }
+
+    if (slowWindows >= opts.downgradeWindows && tierIndex < QUALITY_TIERS.length - 1) {
+      drops[tierIndex]++;
+      setTier(tierIndex + 1, time);
+      return true;
+    }
+    if (tierIndex > 0 && fastWindows >= opts.upgradeWindows * 2 ** drops[tierIndex - 1]) {
+      setTier(tierIndex - 1, time);
+      return true;
+    }
+    return false;
+  };
+
+  const reset = () => {
+    tierIndex = 0;
+    windowStart = -1;
+    windowFrames = 0;
+    windowTime = 0;
+    slowWindows = 0;
+    fastWindows = 0;
+    settleUntil = 0;
+    drops = QUALITY_TIERS.map(() => 0);
+  };
+
+  return {
+    sample,
+    reset,
+    get tier() {
+      return QUALITY_TIERS[tierIndex];
+    },
+    get tierIndex() {
+      return tierIndex;
+    },
+    // Average FPS of the last complete window
+    get fps() {
+      return lastFps;
+    },
+  };
+};
+
+export type QualityGovernor = ReturnType<typeof createQualityGovernor>;
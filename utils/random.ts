@@ -0,0 +1,16 @@
+// Seeded pseudo-random numbers, so generated shapes can be reproduced
+
+// mulberry32: a small, fast 32-bit generator; returns values in [0, 1)
+export const mulberry32 = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for configs that don't need to be reproducible
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
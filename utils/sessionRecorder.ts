@@ -0,0 +1,176 @@
+import { HandTrackingResult } from '../types';
+import { LandmarkFrame } from './inputSources';
+
+// Version 1 (landmarks only) is still accepted by the recording input
+// source; version 2 adds the computed result so replays skip analysis.
+export const SESSION_FORMAT_VERSION = 2;
+
+export interface SessionFrame extends LandmarkFrame {
+  result: HandTrackingResult;
+}
+
+export interface SessionRecording {
+  version: typeof SESSION_FORMAT_VERSION;
+  createdAt: string; // ISO date
+  durationMs: number;
+  frames: SessionFrame[]; // Timestamps relative to the first frame
+}
+
+export const parseSessionRecording = (json: unknown): SessionRecording => {
+  const data = json as Partial<SessionRecording>;
+  if (!data || data.version !== SESSION_FORMAT_VERSION || !Array.isArray(data.frames)) {
+    throw new Error(`Not a session recording (expected version ${SESSION_FORMAT_VERSION}).`);
+  }
+  return data as SessionRecording;
+};
+
+export const createSessionRecorder = () => {
+  let frames: SessionFrame[] = [];
+  let startTimestamp: number | null = null;
+  let recording = false;
+
+  const start = () => {
+    frames = [];
+    startTimestamp = null;
+    recording = true;
+  };
+
+  // Called for every processed frame; ignored unless recording
+  const record = (frame: LandmarkFrame, result: HandTrackingResult) => {
+    if (!recording) return;
+    if (startTimestamp === null) startTimestamp = frame.timestamp;
+    frames.push({
+      timestamp: frame.timestamp - startTimestamp,
+      hands: frame.hands,
+      result,
+    });
+  };
+
+  const stop = (): SessionRecording => {
+    recording = false;
+    return {
+      version: SESSION_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      durationMs: frames.length ? frames[frames.length - 1].timestamp : 0,
+      frames,
+    };
+  };
+
+  return {
+    start,
+    record,
+    stop,
+    get isRecording() {
+      return recording;
+    },
+    get frameCount() {
+      return frames.length;
+    },
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
+
+export interface ReplayerOptions {
+  speed?: number;
+  loop?: boolean;
+  onTick?: (positionMs: number) => void; // Playback position, for scrub bars
+  onEnd?: () => void;
+}
+
+// Feeds recorded results back at their original timing. Frames crossed
+// during playback are all emitted in order so one-off events (claps) are
+// not skipped; seeking only emits the frame under the new position.
+export const createSessionReplayer = (
+  recording: SessionRecording,
+  onUpdate: (result: HandTrackingResult) => void,
+  options: ReplayerOptions = {}
+) => {
+  const { frames, durationMs } = recording;
+  let speed = options.speed ?? 1;
+  let loop = options.loop ?? true;
+  let position = 0;
+  let next = 0; // Index of the next frame to emit
+  let animationFrame: number | null = null;
+  let lastTick = 0;
+
+  // Clap events are matched by timestamp downstream; give each replayed
+  // clap a fresh one so looping fires them again
+  const emit = (frame: SessionFrame) => {
+    const { result } = frame;
+    onUpdate(result.clap ? { ...result, clap: { ...result.clap, timestamp: performance.now() } } : result);
+  };
+
+  const frameIndexAt = (ms: number) => {
+    let i = 0;
+    while (i < frames.length && frames[i].timestamp <= ms) i++;
+    return i;
+  };
+
+  const tick = () => {
+    const now = performance.now();
+    position += (now - lastTick) * speed;
+    lastTick = now;
+
+    while (next < frames.length && frames[next].timestamp <= position) {
+      emit(frames[next]);
+      next++;
+    }
+
+    if (position >= durationMs) {
+      if (loop && frames.length > 0) {
+        position = 0;
+        next = 0;
+      } else {
+        position = durationMs;
+        options.onTick?.(position);
+        pause();
+        options.onEnd?.();
+        return;
+      }
+    }
+
+    options.onTick?.(position);
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  const play = () => {
+    if (animationFrame !== null) return;
+    if (position >= durationMs) seek(0);
+    lastTick = performance.now();
+    animationFrame = requestAnimationFrame(tick);
+  };
+
+  const pause = () => {
+    if (animationFrame !== null) cancelAnimationFrame(animationFrame);
+    animationFrame = null;
+  };
+
+  const seek = (ms: number) => {
+    position = Math.max(0, Math.min(durationMs, ms));
+    next = frameIndexAt(position);
+    // Show the frame under the playhead, without re-firing its events (claps, motion gestures)
+    if (next > 0) {
+      const { clap, motion, ...result } = frames[next - 1].result;
+      onUpdate(result);
+    }
+    options.onTick?.(position);
+  };
+
+  return {
+    play,
+    pause,
+    seek,
+    setSpeed: (value: number) => { speed = value; },
+    setLoop: (value: boolean) => { loop = value; },
+    get isPlaying() {
+      return animationFrame !== null;
+    },
+    get position() {
+      return position;
+    },
+    durationMs,
+  };
+};
+
+export type SessionReplayer = ReturnType<typeof createSessionReplayer>;
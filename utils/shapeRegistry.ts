@@ -0,0 +1,56 @@
+import type { ComponentType } from 'react';
+import { ShapeId, TextShapeOptions, Vec3 } from '../types';
+import { BUILTIN_SHAPES } from './builtinShapes';
+
+// Shape settings from the config that samplers may read
+export interface ShapeContext {
+  text: TextShapeOptions;
+}
+
+// Point for particle `index` of `count`. Draw randomness from `rng` only.
+export type ShapeSampler = (index: number, count: number, rng: () => number, context: ShapeContext) => Vec3;
+
+// Per-particle values that travel with the sampled points
+export interface ShapeAttributes {
+  color?: (index: number, count: number) => [number, number, number]; // rgb, 0-1
+}
+
+export interface ShapeDefinition {
+  id: ShapeId;
+  label: string;
+  icon: ComponentType<{ className?: string }>;
+  sampler: ShapeSampler;
+  attributes?: ShapeAttributes;
+}
+
+const shapes = new Map<ShapeId, ShapeDefinition>(BUILTIN_SHAPES.map(shape => [shape.id, shape]));
+const listeners = new Set<() => void>();
+let snapshot = Array.from(shapes.values());
+
+const notify = () => {
+  snapshot = Array.from(shapes.values());
+  listeners.forEach(listener => listener());
+};
+
+// Adds a shape, or replaces the one with the same id
+export const registerShape = (shape: ShapeDefinition) => {
+  shapes.set(shape.id, shape);
+  notify();
+};
+
+export const unregisterShape = (id: ShapeId) => {
+  if (shapes.delete(id)) notify();
+};
+
+export const getShape = (id: ShapeId) => shapes.get(id);
+
+// Registration order; the array only changes when the registry does
+export const listShapes = () => snapshot;
+
+// For useSyncExternalStore
+export const subscribeShapes = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
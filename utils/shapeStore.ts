@@ -0,0 +1,84 @@
+import { Box, Image as ImageIcon } from 'lucide-react';
+import { ImportedShapeId } from '../types';
+import { ShapeDefinition, registerShape, unregisterShape } from './shapeRegistry';
+
+// A point cloud sampled from an imported mesh or image
+export interface ImportedShape {
+  id: ImportedShapeId;
+  name: string;
+  points: Float32Array; // xyz per particle
+  colors?: Float32Array; // rgb (0-1) per particle, for images
+  createdAt: number;
+}
+
+const DB_NAME = 'particle-testing';
+const DB_VERSION = 1;
+const STORE = 'shapes';
+
+// Imported shapes, filled from IndexedDB on startup and mirrored into the shape registry
+const importedShapes = new Map<ImportedShapeId, ImportedShape>();
+
+// Stored points are handed out by index, repeating if there are fewer than requested
+const toShapeDefinition = ({ id, name, points, colors }: ImportedShape): ShapeDefinition => {
+  const triple = (values: Float32Array, index: number): [number, number, number] => {
+    const i = (index * 3) % values.length;
+    return [values[i], values[i + 1], values[i + 2]];
+  };
+  return {
+    id,
+    label: name,
+    icon: colors ? ImageIcon : Box,
+    sampler: index => {
+      const [x, y, z] = triple(points, index);
+      return { x, y, z };
+    },
+    attributes: colors ? { color: index => triple(colors, index) } : undefined,
+  };
+};
+
+const addImportedShape = (shape: ImportedShape) => {
+  importedShapes.set(shape.id, shape);
+  registerShape(toShapeDefinition(shape));
+};
+
+export const listImportedShapes = () => [...importedShapes.values()].sort((a, b) => a.createdAt - b.createdAt);
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one request against the shapes store and close the connection
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadImportedShapes = async (): Promise<ImportedShape[]> => {
+  const shapes = await withStore<ImportedShape[]>('readonly', store => store.getAll());
+  shapes.forEach(addImportedShape);
+  return listImportedShapes();
+};
+
+export const saveImportedShape = async (shape: ImportedShape) => {
+  addImportedShape(shape);
+  await withStore('readwrite', store => store.put(shape));
+};
+
+export const deleteImportedShape = async (id: ImportedShapeId) => {
+  importedShapes.delete(id);
+  unregisterShape(id);
+  await withStore('readwrite', store => store.delete(id));
+};
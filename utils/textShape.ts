@@ -0,0 +1,102 @@
+import { TextShapeOptions, Vec3 } from '../types';
+
+export const BUILTIN_FONTS = ['sans-serif', 'serif', 'monospace', 'cursive', 'fantasy'];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+const FONT_SIZE = 96; // Raster font size in pixels; text is rescaled to the scene afterwards
+const LINE_HEIGHT = 1.2;
+const PADDING = 8;
+const MAX_CANVAS_SIZE = 2048;
+const TARGET_EXTENT = 5; // World width/height of the longer side, like the built-in shapes
+const ALPHA_THRESHOLD = 128;
+
+// Families registered from uploaded files this session
+const uploadedFonts: string[] = [];
+
+export const listFonts = () => [...BUILTIN_FONTS, ...uploadedFonts];
+
+// Register a local font file with the document so canvases can draw with it
+export const loadFontFile = async (file: File): Promise<string> => {
+  const family = file.name.replace(/\.[^.]+$/, '');
+  try {
+    const face = new FontFace(family, await file.arrayBuffer());
+    await face.load();
+    document.fonts.add(face);
+  } catch {
+    throw new Error(`Could not load font "${file.name}" - use a TTF, OTF or WOFF file.`);
+  }
+  if (!uploadedFonts.includes(family)) uploadedFonts.push(family);
+  return family;
+};
+
+const cssFont = (family: string, size: number) => {
+  const name = BUILTIN_FONTS.includes(family) ? family : `"${family}"`;
+  return `bold ${size}px ${name}`;
+};
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Filled pixels of the text drawn on an offscreen canvas
+const rasterizeText = ({ text, font }: TextShapeOptions) => {
+  const lines = text.split('\n');
+  if (!lines.some(line => line.trim())) return null;
+
+  const measure = createCanvas(1, 1).getContext('2d') as CanvasRenderingContext2D | null;
+  if (!measure) return null;
+  measure.font = cssFont(font, FONT_SIZE);
+  const textWidth = Math.max(...lines.map(line => measure.measureText(line).width));
+  const textHeight = lines.length * FONT_SIZE * LINE_HEIGHT;
+
+  // Shrink the font if long text would exceed the canvas limit
+  const fit = Math.min(1, (MAX_CANVAS_SIZE - PADDING * 2) / Math.max(textWidth, textHeight));
+  const size = FONT_SIZE * fit;
+  const width = Math.ceil(textWidth * fit) + PADDING * 2;
+  const height = Math.ceil(textHeight * fit) + PADDING * 2;
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+  if (!ctx) return null;
+  ctx.font = cssFont(font, size);
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, width / 2, PADDING + (i + 0.5) * size * LINE_HEIGHT);
+  });
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const filled: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    if (data[i * 4 + 3] >= ALPHA_THRESHOLD) filled.push(i);
+  }
+  return filled.length > 0 ? { width, height, filled } : null;
+};
+
+// Config objects are replaced on every edit, so each one is rasterized once
+const rasters = new WeakMap<TextShapeOptions, ReturnType<typeof rasterizeText>>();
+
+// A random point on the text, centred and scaled to the scene, or null when
+// there is nothing to draw
+export const sampleText = (options: TextShapeOptions, random: () => number = Math.random): Vec3 | null => {
+  if (!rasters.has(options)) rasters.set(options, rasterizeText(options));
+  const raster = rasters.get(options);
+  if (!raster) return null;
+
+  const { width, height, filled } = raster;
+  const scale = TARGET_EXTENT / Math.max(width, height);
+  const pixel = filled[Math.floor(random() * filled.length)];
+  const px = (pixel % width) + random();
+  const py = Math.floor(pixel / width) + random();
+  return {
+    x: (px - width / 2) * scale,
+    y: (height / 2 - py) * scale,
+    z: (random() - 0.5) * options.depth,
+  };
+};
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+// Injected by vite.config.ts from the installed @mediapipe/tasks-vision
+declare const __MEDIAPIPE_VERSION__: string;
+
+interface ImportMetaEnv {
+  readonly VITE_MEDIAPIPE_ASSET_BASE?: string;
+}
@@ -1,7 +1,56 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MEDIAPIPE_DIR = path.resolve(__dirname, 'node_modules/@mediapipe/tasks-vision');
+const MEDIAPIPE_VERSION: string = JSON.parse(
+  fs.readFileSync(path.join(MEDIAPIPE_DIR, 'package.json'), 'utf-8')
+).version;
+const MODEL_FILE = path.resolve(__dirname, 'public/mediapipe/hand_landmarker.task');
+
+// Serves the MediaPipe WASM fileset from node_modules in dev and copies it
+// into dist/mediapipe/wasm on build, next to a manifest recording its version.
+// The model itself lives in public/mediapipe (see `npm run fetch:model`).
+const mediapipeAssets = (): Plugin => {
+  const wasmDir = path.join(MEDIAPIPE_DIR, 'wasm');
+  const manifest = JSON.stringify({ version: MEDIAPIPE_VERSION });
+
+  return {
+    name: 'mediapipe-assets',
+    configureServer(server) {
+      server.middlewares.use('/mediapipe', (req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+        if (url === '/manifest.json') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(manifest);
+          return;
+        }
+        const file = url.startsWith('/wasm/') ? path.join(wasmDir, path.basename(url)) : null;
+        if (file && fs.existsSync(file)) {
+          res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+          fs.createReadStream(file).pipe(res);
+          return;
+        }
+        next();
+      });
+    },
+    generateBundle() {
+      for (const file of fs.readdirSync(wasmDir)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `mediapipe/wasm/${file}`,
+          source: fs.readFileSync(path.join(wasmDir, file)),
+        });
+      }
+      this.emitFile({ type: 'asset', fileName: 'mediapipe/manifest.json', source: manifest });
+      if (!fs.existsSync(MODEL_FILE)) {
+        this.warn('public/mediapipe/hand_landmarker.task is missing - run `npm run fetch:model` for offline builds');
+      }
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -23,8 +72,9 @@ export default defineConfig(({ mode }) => {
           }
         }
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets()],
       define: {
+        __MEDIAPIPE_VERSION__: JSON.stringify(MEDIAPIPE_VERSION),
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },